@@ -7,10 +7,17 @@ class LRUCache<T> {
     max: number;
     onRemove: (item: T) => void;
     data: Map<string, T>;
+    //the max bytes of all items, 0 is unlimited
+    maxBytes: number;
+    bytes: number;
+    getSize: (item: T) => number;
+    sizes: Map<string, number>;
 
-    constructor(max: number, onRemove: (item: T) => void) {
+    constructor(max: number, onRemove: (item: T) => void, getSize?: (item: T) => number) {
         this.max = max;
         this.onRemove = onRemove || nullOnRemove;
+        this.getSize = getSize;
+        this.maxBytes = 0;
         this.reset();
     }
 
@@ -23,6 +30,8 @@ class LRUCache<T> {
         }
 
         this.data = new Map();
+        this.sizes = new Map();
+        this.bytes = 0;
         return this;
     }
 
@@ -37,13 +46,16 @@ class LRUCache<T> {
         }
         if (this.has(key)) {
             this.data.delete(key);
+            this.removeSize(key);
             this.data.set(key, data);
-            if (this.data.size > this.max) {
+            this.addSize(key, data);
+            if (this.isOverflow()) {
                 this.shrink();
             }
         } else {
             this.data.set(key, data);
-            if (this.data.size > this.max) {
+            this.addSize(key, data);
+            if (this.isOverflow()) {
                 this.shrink();
             }
         }
@@ -51,6 +63,28 @@ class LRUCache<T> {
         return this;
     }
 
+    addSize(key: string, data: T) {
+        if (!this.getSize) {
+            return;
+        }
+        const size = this.getSize(data) || 0;
+        this.sizes.set(key, size);
+        this.bytes += size;
+    }
+
+    removeSize(key: string) {
+        if (!this.sizes.has(key)) {
+            return;
+        }
+        this.bytes -= this.sizes.get(key);
+        this.sizes.delete(key);
+    }
+
+    isOverflow() {
+        //keep the last item even if it exceeds maxBytes
+        return this.data.size > this.max || (this.maxBytes > 0 && this.bytes > this.maxBytes && this.data.size > 1);
+    }
+
     keys(): string[] {
         const keys = new Array(this.data.size);
         let i = 0;
@@ -64,7 +98,7 @@ class LRUCache<T> {
     shrink() {
         const iterator = this.data.keys();
         let item = iterator.next();
-        while (this.data.size > this.max) {
+        while (this.isOverflow()) {
             const removedData = this.getAndRemove(item.value);
             if (removedData) {
                 this.onRemove(removedData);
@@ -82,6 +116,7 @@ class LRUCache<T> {
 
         const data = this.data.get(key);
         this.data.delete(key);
+        this.removeSize(key);
         return data;
     }
 
@@ -97,6 +132,7 @@ class LRUCache<T> {
 
         const data = this.data.get(key);
         this.data.delete(key);
+        this.removeSize(key);
         this.onRemove(data);
 
         return this;
@@ -104,7 +140,15 @@ class LRUCache<T> {
 
     setMaxSize(max: number) {
         this.max = max;
-        if (this.data.size > this.max) {
+        if (this.isOverflow()) {
+            this.shrink();
+        }
+        return this;
+    }
+
+    setMaxBytes(maxBytes: number) {
+        this.maxBytes = maxBytes;
+        if (this.isOverflow()) {
             this.shrink();
         }
         return this;
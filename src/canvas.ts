@@ -1,5 +1,10 @@
-import { clipBufferOptions, postProcessingOptionsType, returnResultType, TileItem } from "./types";
-import { createDataError, disposeImage, isImageBitmap, isNumber, needFormatImageType, rgb2Height } from "./util";
+import {
+    clipBufferOptions, colorReplaceOptionsType, colorToTransparentOptionsType, colorType, convolutionOptionsType, curvesOptionsType, darkModeOptionsType,
+    edgeOptionsType, levelsOptionsType, sharpenOptionsType, unsharpMaskOptionsType, postProcessingOptionsType, postProcessingStepType, returnResultType, TileItem } from "./types";
+import { createDataError, disposeImage, isImageBitmap, isNumber, needFormatImageType, parseFunction, rgb2Height } from "./util";
+import { setTaskProgressPhase } from "./taskprogress";
+import { convolve, emboss, isKernel, sharpen, sobel, unsharpMask } from "./convolution";
+import { darkMode } from "./darkmode";
 import glur from 'glur';
 import { ColorIn } from 'colorin';
 
@@ -465,17 +470,550 @@ function imageInvertColor(image: ImageBitmap, invertColor: boolean) {
 
 
 
+/**
+ * change the pixels of image by ImageData, not depend on ctx.filter(safari not support it)
+ */
+function imagePixels(image: ImageBitmap, handler: (data: Uint8ClampedArray, width: number, height: number) => void) {
+    const { width, height } = image;
+    const canvas = getCanvas();
+    resizeCanvas(canvas, width, height);
+    const ctx = getCanvasContext(canvas);
+    ctx.drawImage(image, 0, 0);
+    const imageData = ctx.getImageData(0, 0, width, height);
+    handler(imageData.data, width, height);
+    ctx.putImageData(imageData, 0, 0);
+    const bitImage = canvas.transferToImageBitmap();
+    disposeImage(image);
+    return bitImage;
+}
+
+function createLUT(fn: (value: number) => number) {
+    const lut = new Uint8ClampedArray(256);
+    for (let i = 0; i < 256; i++) {
+        lut[i] = Math.round(fn(i));
+    }
+    return lut;
+}
+
+function imageLUT(image: ImageBitmap, lutR: Uint8ClampedArray, lutG = lutR, lutB = lutR) {
+    return imagePixels(image, (data) => {
+        for (let i = 0, len = data.length; i < len; i += 4) {
+            data[i] = lutR[data[i]];
+            data[i + 1] = lutG[data[i + 1]];
+            data[i + 2] = lutB[data[i + 2]];
+        }
+    });
+}
+
+function imageColorMatrix(image: ImageBitmap, matrix: Array<number>) {
+    const [m0, m1, m2, m3, m4, m5, m6, m7, m8] = matrix;
+    return imagePixels(image, (data) => {
+        for (let i = 0, len = data.length; i < len; i += 4) {
+            const r = data[i], g = data[i + 1], b = data[i + 2];
+            data[i] = r * m0 + g * m1 + b * m2;
+            data[i + 1] = r * m3 + g * m4 + b * m5;
+            data[i + 2] = r * m6 + g * m7 + b * m8;
+        }
+    });
+}
+
+//same as css brightness(), 1 is the original
+function imageBrightness(image: ImageBitmap, brightness: number) {
+    if (!isNumber(brightness) || brightness === 1 || brightness < 0) {
+        return image;
+    }
+    return imageLUT(image, createLUT(v => v * brightness));
+}
+
+//same as css contrast(), 1 is the original
+function imageContrast(image: ImageBitmap, contrast: number) {
+    if (!isNumber(contrast) || contrast === 1 || contrast < 0) {
+        return image;
+    }
+    return imageLUT(image, createLUT(v => (v - 127.5) * contrast + 127.5));
+}
+
+//same as css saturate(), 1 is the original
+function imageSaturation(image: ImageBitmap, saturation: number) {
+    if (!isNumber(saturation) || saturation === 1 || saturation < 0) {
+        return image;
+    }
+    const s = saturation;
+    return imageColorMatrix(image, [
+        0.213 + 0.787 * s, 0.715 - 0.715 * s, 0.072 - 0.072 * s,
+        0.213 - 0.213 * s, 0.715 + 0.285 * s, 0.072 - 0.072 * s,
+        0.213 - 0.213 * s, 0.715 - 0.715 * s, 0.072 + 0.928 * s
+    ]);
+}
+
+//same as css hue-rotate(), the angle is degree
+function imageHueRotate(image: ImageBitmap, angle: number) {
+    if (!isNumber(angle) || angle % 360 === 0) {
+        return image;
+    }
+    const rad = angle / 180 * Math.PI;
+    const cos = Math.cos(rad), sin = Math.sin(rad);
+    return imageColorMatrix(image, [
+        0.213 + cos * 0.787 - sin * 0.213, 0.715 - cos * 0.715 - sin * 0.715, 0.072 - cos * 0.072 + sin * 0.928,
+        0.213 - cos * 0.213 + sin * 0.143, 0.715 + cos * 0.285 + sin * 0.140, 0.072 - cos * 0.072 - sin * 0.283,
+        0.213 - cos * 0.213 - sin * 0.787, 0.715 - cos * 0.715 + sin * 0.715, 0.072 + cos * 0.928 + sin * 0.072
+    ]);
+}
+
+//>1 lighter, <1 darker
+function imageGamma(image: ImageBitmap, gamma: number) {
+    if (!isNumber(gamma) || gamma === 1 || gamma <= 0) {
+        return image;
+    }
+    return imageLUT(image, createLUT(v => 255 * Math.pow(v / 255, 1 / gamma)));
+}
+
+function imageLevels(image: ImageBitmap, levels: levelsOptionsType) {
+    if (!levels) {
+        return image;
+    }
+    const { inBlack = 0, inWhite = 255, gamma = 1, outBlack = 0, outWhite = 255 } = levels;
+    if (inWhite <= inBlack || gamma <= 0) {
+        return image;
+    }
+    return imageLUT(image, createLUT(v => {
+        const t = Math.min(1, Math.max(0, (v - inBlack) / (inWhite - inBlack)));
+        return outBlack + Math.pow(t, 1 / gamma) * (outWhite - outBlack);
+    }));
+}
+
+/**
+ * the curve is the control points [[input, output]], linear interpolation between them
+ */
+function curveToLUT(points: Array<[number, number]>) {
+    if (!Array.isArray(points) || points.length < 2) {
+        return null;
+    }
+    const list = points.slice(0).sort((a, b) => {
+        return a[0] - b[0];
+    });
+    return createLUT(v => {
+        if (v <= list[0][0]) {
+            return list[0][1];
+        }
+        for (let i = 1, len = list.length; i < len; i++) {
+            const [x1, y1] = list[i];
+            if (v <= x1) {
+                const [x0, y0] = list[i - 1];
+                return x1 === x0 ? y1 : y0 + (v - x0) / (x1 - x0) * (y1 - y0);
+            }
+        }
+        return list[list.length - 1][1];
+    });
+}
+
+function imageCurves(image: ImageBitmap, curves: curvesOptionsType) {
+    if (!curves) {
+        return image;
+    }
+    const rgb = curveToLUT(curves.points) || createLUT(v => v);
+    const lutR = curveToLUT(curves.r) || rgb;
+    const lutG = curveToLUT(curves.g) || rgb;
+    const lutB = curveToLUT(curves.b) || rgb;
+    return imageLUT(image, lutR, lutG, lutB);
+}
+
+const colorCache = new Map<string, [number, number, number, number]>();
+
+/**
+ * css color or [r, g, b, a?] to [r, g, b, a], a is 0-255
+ */
+function parseColor(color: colorType): [number, number, number, number] | null {
+    if (Array.isArray(color)) {
+        const [r, g, b, a] = color;
+        return [r, g, b, isNumber(a) ? a : 255];
+    }
+    if (!color || typeof color !== 'string') {
+        return null;
+    }
+    let rgba = colorCache.get(color);
+    if (rgba) {
+        return rgba;
+    }
+    //parse it by canvas, support all css colors
+    const canvas = getCanvas();
+    resizeCanvas(canvas, 1, 1);
+    const ctx = getCanvasContext(canvas);
+    ctx.clearRect(0, 0, 1, 1);
+    ctx.fillStyle = color;
+    ctx.fillRect(0, 0, 1, 1);
+    const data = ctx.getImageData(0, 0, 1, 1).data;
+    rgba = [data[0], data[1], data[2], data[3]];
+    colorCache.set(color, rgba);
+    return rgba;
+}
+
+function colorDistance(r: number, g: number, b: number, color: [number, number, number, number]) {
+    const dr = r - color[0], dg = g - color[1], db = b - color[2];
+    return Math.sqrt(dr * dr + dg * dg + db * db);
+}
+
+/**
+ * the pixels near the key colors become transparent, tolerance and feather are the rgb distance(0-441)
+ */
+function imageColorToTransparent(image: ImageBitmap, options: colorToTransparentOptionsType) {
+    if (!options) {
+        return image;
+    }
+    const colors = (options.colors || []).map(color => {
+        return parseColor(color);
+    }).filter(color => {
+        return !!color;
+    });
+    if (!colors.length) {
+        return image;
+    }
+    const tolerance = Math.max(0, options.tolerance || 0);
+    const feather = Math.max(0, options.feather || 0);
+    return imagePixels(image, (data) => {
+        for (let i = 0, len = data.length; i < len; i += 4) {
+            const a = data[i + 3];
+            if (a === 0) {
+                continue;
+            }
+            const r = data[i], g = data[i + 1], b = data[i + 2];
+            let alpha = 1;
+            for (let j = 0, len1 = colors.length; j < len1; j++) {
+                const d = colorDistance(r, g, b, colors[j]);
+                if (d <= tolerance) {
+                    alpha = 0;
+                    break;
+                }
+                //the edge fade out
+                if (d < tolerance + feather) {
+                    alpha = Math.min(alpha, (d - tolerance) / feather);
+                }
+            }
+            if (alpha < 1) {
+                data[i + 3] = a * alpha;
+            }
+        }
+    });
+}
+
+/**
+ * remap the colors by the table [[from, to]], the pixels within tolerance of from become to
+ */
+function imageColorReplace(image: ImageBitmap, options: colorReplaceOptionsType) {
+    if (!options || !Array.isArray(options.colors)) {
+        return image;
+    }
+    const table: Array<[[number, number, number, number], [number, number, number, number]]> = [];
+    options.colors.forEach(item => {
+        const from = parseColor(item && item[0]), to = parseColor(item && item[1]);
+        if (from && to) {
+            table.push([from, to]);
+        }
+    });
+    if (!table.length) {
+        return image;
+    }
+    const tolerance = Math.max(0, options.tolerance || 0);
+    //exact match by rgb key
+    const exactTable = new Map<number, [number, number, number, number]>();
+    if (tolerance === 0) {
+        for (let i = table.length - 1; i >= 0; i--) {
+            const [from, to] = table[i];
+            exactTable.set(from[0] * 65536 + from[1] * 256 + from[2], to);
+        }
+    }
+    return imagePixels(image, (data) => {
+        for (let i = 0, len = data.length; i < len; i += 4) {
+            const r = data[i], g = data[i + 1], b = data[i + 2];
+            let to: [number, number, number, number];
+            if (tolerance === 0) {
+                to = exactTable.get(r * 65536 + g * 256 + b);
+            } else {
+                for (let j = 0, len1 = table.length; j < len1; j++) {
+                    if (colorDistance(r, g, b, table[j][0]) <= tolerance) {
+                        to = table[j][1];
+                        break;
+                    }
+                }
+            }
+            if (!to) {
+                continue;
+            }
+            data[i] = to[0];
+            data[i + 1] = to[1];
+            data[i + 2] = to[2];
+            data[i + 3] = data[i + 3] * to[3] / 255;
+        }
+    });
+}
+
+function imageDarkMode(image: ImageBitmap, options: darkModeOptionsType) {
+    if (!options) {
+        return image;
+    }
+    const { space, contrast, tint, tintAmount } = options;
+    const tintColor = tint ? parseColor(tint) : null;
+    return imagePixels(image, (data, width, height) => {
+        darkMode(data, width, height, {
+            space: space || 'oklab',
+            contrast: isNumber(contrast) ? Math.max(0, contrast) : 1,
+            tint: tintColor ? [tintColor[0], tintColor[1], tintColor[2]] : null,
+            tintAmount: isNumber(tintAmount) ? Math.min(1, Math.max(0, tintAmount)) : 0.2
+        });
+    });
+}
+
+function imageConvolution(image: ImageBitmap, options: convolutionOptionsType) {
+    if (!options || !isKernel(options.kernel)) {
+        return image;
+    }
+    const { kernel, divisor, offset, edge } = options;
+    return imagePixels(image, (data, width, height) => {
+        convolve(data, width, height, kernel, divisor, offset, edge);
+    });
+}
+
+function imageSharpen(image: ImageBitmap, options: sharpenOptionsType) {
+    if (!options) {
+        return image;
+    }
+    const { amount, edge } = options;
+    if (isNumber(amount) && amount <= 0) {
+        return image;
+    }
+    return imagePixels(image, (data, width, height) => {
+        sharpen(data, width, height, amount, edge);
+    });
+}
+
+function imageUnsharpMask(image: ImageBitmap, options: unsharpMaskOptionsType) {
+    if (!options) {
+        return image;
+    }
+    const { radius, amount, threshold, edge } = options;
+    return imagePixels(image, (data, width, height) => {
+        unsharpMask(data, width, height, radius, amount, threshold, edge);
+    });
+}
+
+function imageEmboss(image: ImageBitmap, options: edgeOptionsType) {
+    if (!options) {
+        return image;
+    }
+    return imagePixels(image, (data, width, height) => {
+        emboss(data, width, height, options.edge);
+    });
+}
+
+function imageSobel(image: ImageBitmap, options: edgeOptionsType) {
+    if (!options) {
+        return image;
+    }
+    return imagePixels(image, (data, width, height) => {
+        sobel(data, width, height, options.edge);
+    });
+}
+
+type PostProcessingFilter = (image: ImageBitmap, params?: any) => ImageBitmap;
+
+const PostProcessingFilters: Record<string, PostProcessingFilter> = {
+    filter: (image, params) => {
+        return imageFilter(image, params && params.filter);
+    },
+    gaussianBlur: (image, params) => {
+        return imageGaussianBlur(image, params && params.radius);
+    },
+    opacity: (image, params) => {
+        return imageOpacity(image, params && params.opacity);
+    },
+    oldPhoto: (image) => {
+        return imageOldPhoto(image, true);
+    },
+    invertColor: (image) => {
+        return imageInvertColor(image, true);
+    },
+    mosaic: (image, params) => {
+        return imageMosaic(image, params && params.size);
+    },
+    brightness: (image, params) => {
+        return imageBrightness(image, params && params.value);
+    },
+    contrast: (image, params) => {
+        return imageContrast(image, params && params.value);
+    },
+    saturation: (image, params) => {
+        return imageSaturation(image, params && params.value);
+    },
+    hueRotate: (image, params) => {
+        return imageHueRotate(image, params && params.angle);
+    },
+    gamma: (image, params) => {
+        return imageGamma(image, params && params.value);
+    },
+    levels: (image, params) => {
+        return imageLevels(image, params);
+    },
+    curves: (image, params) => {
+        return imageCurves(image, params);
+    },
+    colorToTransparent: (image, params) => {
+        return imageColorToTransparent(image, params);
+    },
+    colorReplace: (image, params) => {
+        return imageColorReplace(image, params);
+    },
+    darkMode: (image, params) => {
+        return imageDarkMode(image, params || {});
+    },
+    convolution: (image, params) => {
+        return imageConvolution(image, params);
+    },
+    sharpen: (image, params) => {
+        return imageSharpen(image, params || {});
+    },
+    unsharpMask: (image, params) => {
+        return imageUnsharpMask(image, params || {});
+    },
+    emboss: (image, params) => {
+        return imageEmboss(image, params || {});
+    },
+    sobel: (image, params) => {
+        return imageSobel(image, params || {});
+    }
+};
+
+//the filters registered by registerFilter
+const CustomFilters: Record<string, Function> = {};
+
+export function isBuiltinFilter(name: string) {
+    return !!PostProcessingFilters[name];
+}
+
+export function registerFilter(name: string, source: string) {
+    const fn = parseFunction(source);
+    if (fn instanceof Error) {
+        return fn;
+    }
+    CustomFilters[name] = fn;
+}
+
+export function removeFilter(name: string) {
+    delete CustomFilters[name];
+}
+
+/**
+ * the custom filter is pixel kernel: (data: Uint8ClampedArray, width, height, params) => void, change the data in place
+ */
+function imageCustomFilter(image: ImageBitmap, fn: Function, params?: any) {
+    return imagePixels(image, (data, width, height) => {
+        fn(data, width, height, params);
+    });
+}
+
+/**
+ * the old options(filter,gaussianBlurRadius...) are the presets of postProcessing, keep the old order
+ */
+function getPostProcessingSteps(options: postProcessingOptionsType) {
+    const { filter, gaussianBlurRadius, opacity, oldPhoto, invertColor, mosaicSize, postProcessing,
+        brightness, contrast, saturation, hueRotate, gamma, levels, curves, colorToTransparent, colorReplace,
+        convolution, sharpen, unsharpMask, emboss, sobel, darkMode } = options;
+    const steps: Array<postProcessingStepType> = [];
+    //by the source colors of tile
+    if (colorToTransparent) {
+        steps.push({ type: 'colorToTransparent', params: colorToTransparent });
+    }
+    if (colorReplace) {
+        steps.push({ type: 'colorReplace', params: colorReplace });
+    }
+    if (filter) {
+        steps.push({ type: 'filter', params: { filter } });
+    }
+    //the pixel adjustments, the same effect in every browser
+    if (isNumber(brightness)) {
+        steps.push({ type: 'brightness', params: { value: brightness } });
+    }
+    if (isNumber(contrast)) {
+        steps.push({ type: 'contrast', params: { value: contrast } });
+    }
+    if (isNumber(saturation)) {
+        steps.push({ type: 'saturation', params: { value: saturation } });
+    }
+    if (isNumber(hueRotate)) {
+        steps.push({ type: 'hueRotate', params: { angle: hueRotate } });
+    }
+    if (isNumber(gamma)) {
+        steps.push({ type: 'gamma', params: { value: gamma } });
+    }
+    if (levels) {
+        steps.push({ type: 'levels', params: levels });
+    }
+    if (curves) {
+        steps.push({ type: 'curves', params: curves });
+    }
+    if (darkMode) {
+        steps.push({ type: 'darkMode', params: darkMode === true ? {} : darkMode });
+    }
+    //the convolution kernels
+    if (convolution) {
+        steps.push({ type: 'convolution', params: convolution });
+    }
+    if (sharpen) {
+        steps.push({ type: 'sharpen', params: sharpen === true ? {} : sharpen });
+    }
+    if (unsharpMask) {
+        steps.push({ type: 'unsharpMask', params: unsharpMask === true ? {} : unsharpMask });
+    }
+    if (emboss) {
+        steps.push({ type: 'emboss', params: emboss === true ? {} : emboss });
+    }
+    if (sobel) {
+        steps.push({ type: 'sobel', params: sobel === true ? {} : sobel });
+    }
+    if (isNumber(gaussianBlurRadius)) {
+        steps.push({ type: 'gaussianBlur', params: { radius: gaussianBlurRadius } });
+    }
+    if (isNumber(opacity)) {
+        steps.push({ type: 'opacity', params: { opacity } });
+    }
+    if (oldPhoto) {
+        steps.push({ type: 'oldPhoto' });
+    }
+    if (invertColor) {
+        steps.push({ type: 'invertColor' });
+    }
+    if (isNumber(mosaicSize)) {
+        steps.push({ type: 'mosaic', params: { size: mosaicSize } });
+    }
+    if (Array.isArray(postProcessing)) {
+        return steps.concat(postProcessing);
+    }
+    return steps;
+}
+
 export function postProcessingImage(image: ImageBitmap, options: postProcessingOptionsType) {
     if (options.ignorePostProcessing) {
         return image;
     }
-    const filterImage = imageFilter(image, options.filter);
-    const blurImage = imageGaussianBlur(filterImage, options.gaussianBlurRadius);
-    const opImage = imageOpacity(blurImage, options.opacity);
-    const oldImage = imageOldPhoto(opImage, options.oldPhoto);
-    const invertColorImage = imageInvertColor(oldImage, options.invertColor);
-    const mosaicImage = imageMosaic(invertColorImage, options.mosaicSize);
-    return mosaicImage;
+    const steps = getPostProcessingSteps(options);
+    if (!steps.length) {
+        return image;
+    }
+    setTaskProgressPhase(options, 'post-process');
+    for (let i = 0, len = steps.length; i < len; i++) {
+        const { type, params } = steps[i] || {} as postProcessingStepType;
+        const filter = PostProcessingFilters[type];
+        if (filter) {
+            image = filter(image, params);
+            continue;
+        }
+        const fn = CustomFilters[type];
+        if (!fn) {
+            console.warn('not find postProcessing filter:' + type);
+            continue;
+        }
+        image = imageCustomFilter(image, fn, params);
+    }
+    return image;
 }
 
 export function imageQuality(image: ImageBitmap, options: returnResultType) {
@@ -512,6 +1050,7 @@ export function imageQuality(image: ImageBitmap, options: returnResultType) {
 
 export function createImageTypeResult(canvas: OffscreenCanvas, image1: ImageBitmap, options: returnResultType) {
     return new Promise((resolve: (image: ImageBitmap | string | ArrayBuffer) => void, reject) => {
+        setTaskProgressPhase(options, 'encode');
         imageQuality(image1, options).then(image => {
             const { returnBlobURL, returnUint32Buffer } = options || {};
             if (!needFormatImageType(options)) {
@@ -0,0 +1,164 @@
+import { convolutionEdgeType } from './types';
+
+const SOBEL_X = [-1, 0, 1, -2, 0, 2, -1, 0, 1];
+const SOBEL_Y = [-1, -2, -1, 0, 0, 0, 1, 2, 1];
+const EMBOSS = [-2, -1, 0, -1, 1, 1, 0, 1, 2];
+const GAUSSIAN3 = [1, 2, 1, 2, 4, 2, 1, 2, 1];
+const GAUSSIAN5 = [
+    1, 4, 6, 4, 1,
+    4, 16, 24, 16, 4,
+    6, 24, 36, 24, 6,
+    4, 16, 24, 16, 4,
+    1, 4, 6, 4, 1
+];
+
+export function isKernel(kernel: Array<number>) {
+    return Array.isArray(kernel) && (kernel.length === 9 || kernel.length === 25);
+}
+
+/**
+ * the pixel index out of tile:
+ * clamp: use the edge pixel, the edge not become dark/bright, but it can not see the pixels of neighbor tile, the seam between tiles is still possible
+ * mirror: mirror the pixels in tile
+ * wrap: the pixels of other side
+ * transparent: ignore it, the weights of other pixels are re-normalised when the kernel sum is not 0
+ */
+function edgeIndex(i: number, size: number, edge: convolutionEdgeType) {
+    if (i >= 0 && i < size) {
+        return i;
+    }
+    if (edge === 'transparent') {
+        return -1;
+    }
+    if (edge === 'wrap') {
+        return (i % size + size) % size;
+    }
+    if (edge === 'mirror') {
+        i = i < 0 ? -i : 2 * size - i - 2;
+    }
+    return Math.min(size - 1, Math.max(0, i));
+}
+
+function convolveData(src: Uint8ClampedArray, dst: Uint8ClampedArray, width: number, height: number,
+    kernel: Array<number>, divisor: number, offset: number, edge: convolutionEdgeType) {
+    const size = Math.sqrt(kernel.length);
+    const half = (size - 1) / 2;
+    let kernelSum = 0;
+    for (let i = 0, len = kernel.length; i < len; i++) {
+        kernelSum += kernel[i];
+    }
+    for (let y = 0; y < height; y++) {
+        for (let x = 0; x < width; x++) {
+            let r = 0, g = 0, b = 0, weightSum = 0;
+            for (let ky = 0; ky < size; ky++) {
+                const sy = edgeIndex(y + ky - half, height, edge);
+                if (sy < 0) {
+                    continue;
+                }
+                for (let kx = 0; kx < size; kx++) {
+                    const sx = edgeIndex(x + kx - half, width, edge);
+                    if (sx < 0) {
+                        continue;
+                    }
+                    const w = kernel[ky * size + kx];
+                    if (w === 0) {
+                        continue;
+                    }
+                    const idx = (sy * width + sx) * 4;
+                    weightSum += w;
+                    r += src[idx] * w;
+                    g += src[idx + 1] * w;
+                    b += src[idx + 2] * w;
+                }
+            }
+            //the skipped pixels of transparent edge
+            if (kernelSum !== 0 && weightSum !== kernelSum && weightSum !== 0) {
+                const scale = kernelSum / weightSum;
+                r *= scale;
+                g *= scale;
+                b *= scale;
+            }
+            const idx = (y * width + x) * 4;
+            dst[idx] = r / divisor + offset;
+            dst[idx + 1] = g / divisor + offset;
+            dst[idx + 2] = b / divisor + offset;
+            dst[idx + 3] = src[idx + 3];
+        }
+    }
+}
+
+function kernelDivisor(kernel: Array<number>) {
+    let sum = 0;
+    for (let i = 0, len = kernel.length; i < len; i++) {
+        sum += kernel[i];
+    }
+    return sum === 0 ? 1 : sum;
+}
+
+export function convolve(data: Uint8ClampedArray, width: number, height: number, kernel: Array<number>,
+    divisor?: number, offset = 0, edge: convolutionEdgeType = 'clamp') {
+    const src = new Uint8ClampedArray(data);
+    convolveData(src, data, width, height, kernel, divisor || kernelDivisor(kernel), offset, edge);
+}
+
+export function sharpen(data: Uint8ClampedArray, width: number, height: number, amount = 1, edge?: convolutionEdgeType) {
+    const kernel = [0, -amount, 0, -amount, 1 + 4 * amount, -amount, 0, -amount, 0];
+    convolve(data, width, height, kernel, 1, 0, edge);
+}
+
+export function emboss(data: Uint8ClampedArray, width: number, height: number, edge?: convolutionEdgeType) {
+    convolve(data, width, height, EMBOSS, 1, 0, edge);
+}
+
+/**
+ * original + amount * (original - blurred), only when the difference is larger than threshold
+ */
+export function unsharpMask(data: Uint8ClampedArray, width: number, height: number, radius = 1, amount = 1, threshold = 0, edge?: convolutionEdgeType) {
+    const kernel = radius > 1 ? GAUSSIAN5 : GAUSSIAN3;
+    const blurred = new Uint8ClampedArray(data.length);
+    convolveData(data, blurred, width, height, kernel, kernelDivisor(kernel), 0, edge || 'clamp');
+    for (let i = 0, len = data.length; i < len; i += 4) {
+        for (let j = 0; j < 3; j++) {
+            const diff = data[i + j] - blurred[i + j];
+            if (Math.abs(diff) > threshold) {
+                data[i + j] = data[i + j] + amount * diff;
+            }
+        }
+    }
+}
+
+/**
+ * the gradient magnitude of gray image
+ */
+export function sobel(data: Uint8ClampedArray, width: number, height: number, edge: convolutionEdgeType = 'clamp') {
+    const gray = new Float32Array(width * height);
+    for (let i = 0, len = gray.length; i < len; i++) {
+        const idx = i * 4;
+        gray[i] = data[idx] * 0.299 + data[idx + 1] * 0.587 + data[idx + 2] * 0.114;
+    }
+    for (let y = 0; y < height; y++) {
+        for (let x = 0; x < width; x++) {
+            let gx = 0, gy = 0;
+            for (let ky = 0; ky < 3; ky++) {
+                const sy = edgeIndex(y + ky - 1, height, edge);
+                if (sy < 0) {
+                    continue;
+                }
+                for (let kx = 0; kx < 3; kx++) {
+                    const sx = edgeIndex(x + kx - 1, width, edge);
+                    if (sx < 0) {
+                        continue;
+                    }
+                    const value = gray[sy * width + sx];
+                    gx += value * SOBEL_X[ky * 3 + kx];
+                    gy += value * SOBEL_Y[ky * 3 + kx];
+                }
+            }
+            const idx = (y * width + x) * 4;
+            const magnitude = Math.sqrt(gx * gx + gy * gy);
+            data[idx] = magnitude;
+            data[idx + 1] = magnitude;
+            data[idx + 2] = magnitude;
+        }
+    }
+}
@@ -0,0 +1,172 @@
+import { darkModeSpaceType } from './types';
+
+export type darkModeParams = {
+    space: darkModeSpaceType;
+    contrast: number;
+    //the rgb of tint, 0-255
+    tint: [number, number, number] | null;
+    tintAmount: number;
+}
+
+//srgb(0-255) to linear rgb
+const LINEAR_LUT = new Float32Array(256);
+for (let i = 0; i < 256; i++) {
+    const c = i / 255;
+    LINEAR_LUT[i] = c <= 0.04045 ? c / 12.92 : Math.pow((c + 0.055) / 1.055, 2.4);
+}
+
+function linearToSRGB(c: number) {
+    c = Math.min(1, Math.max(0, c));
+    return (c <= 0.0031308 ? c * 12.92 : 1.055 * Math.pow(c, 1 / 2.4) - 0.055) * 255;
+}
+
+/**
+ * https://bottosson.github.io/posts/oklab/
+ */
+function rgbToOKLab(r: number, g: number, b: number, out: Array<number>) {
+    const lr = LINEAR_LUT[r], lg = LINEAR_LUT[g], lb = LINEAR_LUT[b];
+    const l = Math.cbrt(0.4122214708 * lr + 0.5363325363 * lg + 0.0514459929 * lb);
+    const m = Math.cbrt(0.2119034982 * lr + 0.6806995451 * lg + 0.1073969566 * lb);
+    const s = Math.cbrt(0.0883024619 * lr + 0.2817188376 * lg + 0.6299787005 * lb);
+    out[0] = 0.2104542553 * l + 0.7936177850 * m - 0.0040720468 * s;
+    out[1] = 1.9779984951 * l - 2.4285922050 * m + 0.4505937099 * s;
+    out[2] = 0.0259040371 * l + 0.7827717662 * m - 0.8086757660 * s;
+    return out;
+}
+
+function okLabToRGB(L: number, a: number, b: number, out: Array<number>) {
+    const l = Math.pow(L + 0.3963377774 * a + 0.2158037573 * b, 3);
+    const m = Math.pow(L - 0.1055613458 * a - 0.0638541728 * b, 3);
+    const s = Math.pow(L - 0.0894841775 * a - 1.2914855480 * b, 3);
+    out[0] = linearToSRGB(4.0767416621 * l - 3.3077115913 * m + 0.2309699292 * s);
+    out[1] = linearToSRGB(-1.2684380046 * l + 2.6097574011 * m - 0.3413193965 * s);
+    out[2] = linearToSRGB(-0.0041960863 * l - 0.7034186147 * m + 1.7076147010 * s);
+    return out;
+}
+
+function rgbToHSL(r: number, g: number, b: number, out: Array<number>) {
+    r /= 255;
+    g /= 255;
+    b /= 255;
+    const max = Math.max(r, g, b), min = Math.min(r, g, b);
+    const l = (max + min) / 2;
+    let h = 0, s = 0;
+    if (max !== min) {
+        const d = max - min;
+        s = l > 0.5 ? d / (2 - max - min) : d / (max + min);
+        if (max === r) {
+            h = (g - b) / d + (g < b ? 6 : 0);
+        } else if (max === g) {
+            h = (b - r) / d + 2;
+        } else {
+            h = (r - g) / d + 4;
+        }
+        h /= 6;
+    }
+    out[0] = h;
+    out[1] = s;
+    out[2] = l;
+    return out;
+}
+
+function hueToRGB(p: number, q: number, t: number) {
+    if (t < 0) {
+        t += 1;
+    }
+    if (t > 1) {
+        t -= 1;
+    }
+    if (t < 1 / 6) {
+        return p + (q - p) * 6 * t;
+    }
+    if (t < 1 / 2) {
+        return q;
+    }
+    if (t < 2 / 3) {
+        return p + (q - p) * (2 / 3 - t) * 6;
+    }
+    return p;
+}
+
+function hslToRGB(h: number, s: number, l: number, out: Array<number>) {
+    if (s === 0) {
+        out[0] = out[1] = out[2] = l * 255;
+        return out;
+    }
+    const q = l < 0.5 ? l * (1 + s) : l + s - l * s;
+    const p = 2 * l - q;
+    out[0] = hueToRGB(p, q, h + 1 / 3) * 255;
+    out[1] = hueToRGB(p, q, h) * 255;
+    out[2] = hueToRGB(p, q, h - 1 / 3) * 255;
+    return out;
+}
+
+/**
+ * invert the lightness, then scale it by contrast around the middle(0.5)
+ */
+function invertLightness(lightness: number, contrast: number) {
+    const value = (0.5 - lightness) * contrast + 0.5;
+    return Math.min(1, Math.max(0, value));
+}
+
+/**
+ * invert the lightness in oklab(perceptual) or hsl, keep the hue, the white background become dark and the dark roads/labels become light
+ */
+export function darkMode(data: Uint8ClampedArray, width: number, height: number, params: darkModeParams) {
+    const { space, contrast, tint, tintAmount } = params;
+    const isHSL = space === 'hsl';
+    const color = [0, 0, 0], tintColor = [0, 0, 0];
+    if (tint) {
+        if (isHSL) {
+            rgbToHSL(tint[0], tint[1], tint[2], tintColor);
+        } else {
+            rgbToOKLab(tint[0], tint[1], tint[2], tintColor);
+        }
+    }
+    //the same color in tile, such as the background
+    let lastR = -1, lastG = -1, lastB = -1, resultR = 0, resultG = 0, resultB = 0;
+    for (let i = 0, len = width * height * 4; i < len; i += 4) {
+        if (data[i + 3] === 0) {
+            continue;
+        }
+        const r = data[i], g = data[i + 1], b = data[i + 2];
+        if (r !== lastR || g !== lastG || b !== lastB) {
+            lastR = r;
+            lastG = g;
+            lastB = b;
+            if (isHSL) {
+                rgbToHSL(r, g, b, color);
+                let [h, s] = color;
+                const l = invertLightness(color[2], contrast);
+                if (tint) {
+                    //the gray has no hue, use the hue of tint
+                    if (s === 0) {
+                        h = tintColor[0];
+                    } else {
+                        //mix the hue by the shortest path
+                        let dh = tintColor[0] - h;
+                        dh -= Math.round(dh);
+                        h = (h + dh * tintAmount + 1) % 1;
+                    }
+                    s = s + (tintColor[1] - s) * tintAmount;
+                }
+                hslToRGB(h, s, l, color);
+            } else {
+                rgbToOKLab(r, g, b, color);
+                let [, A, B] = color;
+                const L = invertLightness(color[0], contrast);
+                if (tint) {
+                    A = A + (tintColor[1] - A) * tintAmount;
+                    B = B + (tintColor[2] - B) * tintAmount;
+                }
+                okLabToRGB(L, A, B, color);
+            }
+            resultR = color[0];
+            resultG = color[1];
+            resultB = color[2];
+        }
+        data[i] = resultR;
+        data[i + 1] = resultG;
+        data[i + 2] = resultB;
+    }
+}
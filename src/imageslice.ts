@@ -1,13 +1,13 @@
 import { createImageTypeResult, getCanvas, getCanvasContext, mergeTiles, postProcessingImage, resizeCanvas } from "./canvas";
 import { fetchTile } from "./tilefetch";
 import { getTileOptions, sliceImageItemType, sliceImageResultType } from "./types";
-import { checkArray, HEADERS, uuid, disposeImage } from "./util";
-
-const SIZE = 512;
+import { checkArray, HEADERS, uuid, disposeImage, CONFIG, needFormatImageType } from "./util";
+import { setTaskProgressPhase } from "./taskprogress";
 
 export function imageSlicing(options: getTileOptions) {
     (options as any).disableCache = true;
     return new Promise((resolve, reject) => {
+        const SIZE = CONFIG.imageSliceSize;
         const url = options.url;
         const urls = checkArray(url);
         const headers = Object.assign({}, HEADERS, options.headers || {});
@@ -15,6 +15,7 @@ export function imageSlicing(options: getTileOptions) {
             return fetchTile(tileUrl, headers, options)
         });
         Promise.all(fetchTiles).then(imagebits => {
+            setTaskProgressPhase(options, 'compose');
             const canvas = getCanvas(SIZE);
             const image = mergeTiles(imagebits);
             if (image instanceof Error) {
@@ -59,6 +60,10 @@ export function imageSlicing(options: getTileOptions) {
                 items
             }
             disposeImage(image);
+            //the items will be encoded by imageToBlobURL
+            if (needFormatImageType(options)) {
+                setTaskProgressPhase(options, 'encode');
+            }
             resolve(result);
         }).catch(error => {
             reject(error);
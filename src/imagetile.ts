@@ -2,6 +2,7 @@ import { bboxIntersect, bboxToPoints } from "./bbox";
 import { getBlankTile, getCanvas, getCanvasContext } from "./canvas";
 import { getImageTileOptions, injectImageOptions } from "./types";
 import { createNetWorkError, isEPSG3857, lnglat2Mercator } from "./util";
+import { transformRequest } from "./tilefetch";
 
 export function imageTile(imageInfo, options: getImageTileOptions) {
     const imageBBOX = imageInfo.imageBBOX;
@@ -66,9 +67,11 @@ export function imagetTileFetch(options: injectImageOptions) {
             referrer: options.referrer
         };
 
-        fetch(url, fetchOptions).then(res => {
+        transformRequest(url, fetchOptions, options, {}, 'injectImage').then(request => {
+            return fetch(request.url, request.fetchOptions);
+        }).then(res => {
             if (!res.ok) {
-                reject(createNetWorkError(url));
+                reject(createNetWorkError(url, res.status));
                 return;
             }
             return res.blob();
@@ -7,9 +7,11 @@ import {
     checkBuffers, TaskCancelError, disposeImage,
     needFormatImageType,
     needPostProcessingImage,
-    removeTimeOut
+    removeTimeOut,
+    getSeedMaxTiles,
+    getTileRangeCount
 } from './util';
-import { getCanvas, getCanvasContext, resizeCanvas } from './canvas';
+import { getCanvas, getCanvasContext, isBuiltinFilter, resizeCanvas } from './canvas';
 import {
     privateOptions, getTileOptions, layoutTilesOptions,
     getTileWithMaxZoomOptions,
@@ -24,7 +26,23 @@ import {
     rejectResultType,
     sliceImageResultType,
     getVTTileOptions,
-    rectifyTileOptions
+    rectifyTileOptions,
+    indexedDBCacheOptionsType,
+    indexedDBCacheStatsType,
+    requestTransformResultType,
+    tileWithMaxZoomResultType,
+    injectTileSourceOptions,
+    seedTilesOptions,
+    seedTilesResultType,
+    seedTilesChunkResultType,
+    tileCacheOptionsType,
+    tileCacheUsageType,
+    tileActorConfigType,
+    taskProgressType,
+    batchOperationType,
+    batchOptionsType,
+    batchItemResultType,
+    pipelineOptions
 } from './types.js';
 import { imageTile } from './imagetile.js';
 export { getBlankTile, get404Tile } from './canvas';
@@ -36,12 +54,68 @@ registerWorkerAdapter(WORKERNAME, WORKERCODE as unknown as string);
 
 const maskMap = {};
 const imageMap = {};
+//the worker id of injected tile source
+const tileSourceMap: Record<string, number> = {};
+const progressMap: Record<string, (progress: taskProgressType) => void> = {};
+const batchMap: Record<string, (item: batchItemResultType) => void> = {};
+//the running tasks, for cancelGroup/cancelAll
+const taskMap: Record<string, { options: privateOptions, promise: Promise<any> }> = {};
 const SUPPORTPROJECTION = ['EPSG:4326', 'EPSG:3857'];
 
 const transformTypes = ['WGS84-GCJ02', 'GCJ02-WGS84'];
 const TerrainTypes = ['mapzen', 'tianditu', 'cesium', 'arcgis', 'qgis-gray'];
+const TileSourceTypes = ['pmtiles', 'mbtiles'];
+const SEED_CHUNK_SIZE = 32;
+const SEED_CONCURRENCY = 4;
+const SEED_PRIORITY = -1;
+const PipelineStepTypes = ['transform', 'rectify', 'clip', 'postProcessing', 'colorTerrain', 'encode'];
+const BatchTypes = ['getTile', 'getTileWithMaxZoom', 'layoutTiles', 'clipTile', 'transformTile', 'rectifyTile'];
+
+const TileSourceProtocols = ['pmtiles://', 'mbtiles://'];
+
+function eachOptionsUrl(value, fn: (url: string) => void) {
+    if (Array.isArray(value)) {
+        value.forEach(item => {
+            eachOptionsUrl(item, fn);
+        });
+    } else if (typeof value === 'string') {
+        fn(value);
+    }
+}
+
+/**
+ * the injected tile source is only in one worker, the task use its url should run in the worker
+ */
+function getTileSourceWorkerId(options): number | null {
+    if (!options) {
+        return null;
+    }
+    let workerId: number = null;
+    const check = (url: string) => {
+        if (isNumber(workerId)) {
+            return;
+        }
+        for (let i = 0, len = TileSourceProtocols.length; i < len; i++) {
+            const protocol = TileSourceProtocols[i];
+            if (url.indexOf(protocol) === 0) {
+                const id = url.substring(protocol.length).split('/')[0];
+                if (isNumber(tileSourceMap[id])) {
+                    workerId = tileSourceMap[id];
+                }
+                return;
+            }
+        }
+    };
+    [options, options.source].forEach(opts => {
+        if (opts) {
+            eachOptionsUrl([opts.url, opts.urlTemplate, opts.mirrors], check);
+        }
+    });
+    return workerId;
+}
 
 function checkOptions(options, type: string) {
+    const workerId = getTileSourceWorkerId(options);
     return Object.assign(
         {
             referrer: document.location.href,
@@ -51,10 +125,21 @@ function checkOptions(options, type: string) {
         {
             __type: type,
             __taskId: uuid(),
-            __workerId: getWorkerId()
+            __workerId: isNumber(workerId) ? workerId : getWorkerId()
         });
 }
 
+//the function can not post to worker, keep it in main thread
+function checkProgress(options) {
+    const { onProgress } = options;
+    delete options.onProgress;
+    if (typeof onProgress === 'function') {
+        options.__progress = true;
+        progressMap[options.__taskId] = onProgress;
+    }
+    return options;
+}
+
 function getTaskId(options: Record<string, any>) {
     const workerId = options.__workerId as number;
     const taskId = options.__taskId as number;
@@ -68,6 +153,107 @@ function isErrorOrCancel(error: Error, promise): boolean {
     return (error || (promise && promise.canceled));
 }
 
+function validateProjection(projection: string, name: string) {
+    if (!projection) {
+        return createParamsValidateError(name + ' error:not find projection');
+    }
+    if (SUPPORTPROJECTION.indexOf(projection) === -1) {
+        return createParamsValidateError(name + ' error:not support projection:' + projection + '.the support:' + SUPPORTPROJECTION.join(',').toString());
+    }
+    return null;
+}
+
+function validateMaxZoomTile(options: getTileWithMaxZoomOptions, name: string) {
+    const { urlTemplate, maxAvailableZoom, x, y, z } = options;
+    const maxZoomEnable = maxAvailableZoom && isNumber(maxAvailableZoom) && maxAvailableZoom >= 1;
+    if (!maxZoomEnable) {
+        return createParamsValidateError(name + ' error:maxAvailableZoom is error');
+    }
+    if (!urlTemplate) {
+        return createParamsValidateError(name + ' error:urlTemplate is error');
+    }
+    if (!isNumber(x) || !isNumber(y) || !isNumber(z)) {
+        return createParamsValidateError(name + ' error:x/y/z is error');
+    }
+    return null;
+}
+
+//the params validate of tasks, return the error or null, they are shared by the methods and batch
+function validateGetTile(options: getTileOptions) {
+    if (!options.url) {
+        return createParamsValidateError('getTile error:url is null');
+    }
+    return null;
+}
+
+function validateGetTileWithMaxZoom(options: getTileWithMaxZoomOptions) {
+    return validateMaxZoomTile(options, 'getTileWithMaxZoom');
+}
+
+function validateLayoutTiles(options: layoutTilesOptions) {
+    const { urlTemplate, tiles } = options;
+    if (!urlTemplate) {
+        return createParamsValidateError('layoutTiles error:urlTemplate is null');
+    }
+    if (!tiles || tiles.length === 0) {
+        return createParamsValidateError('layoutTiles error:tiles is null');
+    }
+    return null;
+}
+
+function validateClipTile(options: clipTileOptions) {
+    const { tile, tileBBOX, projection, tileSize, maskId } = options;
+    if (!tile) {
+        return createParamsValidateError('clipTile error:tile is null.It should be a ImageBitmap');
+    }
+    if (!tileBBOX) {
+        return createParamsValidateError('clipTile error:tileBBOX is null');
+    }
+    if (!projection) {
+        return createParamsValidateError('clipTile error:projection is null');
+    }
+    if (!tileSize) {
+        return createParamsValidateError('clipTile error:tileSize is null');
+    }
+    if (!maskId) {
+        return createParamsValidateError('clipTile error:maskId is null');
+    }
+    if (!maskMap[maskId]) {
+        return createParamsValidateError('not find mask by maskId:' + maskId);
+    }
+    return null;
+}
+
+function validateTransformTile(options: transformTileOptions) {
+    return validateProjection(options.projection, 'transformTile') || validateMaxZoomTile(options, 'transformTile');
+}
+
+function validateRectifyTile(options: rectifyTileOptions) {
+    const error = validateProjection(options.projection, 'rectifyTile') || validateMaxZoomTile(options, 'rectifyTile');
+    if (error) {
+        return error;
+    }
+    const { tileBBOX, transform } = options;
+    if (!tileBBOX) {
+        return createParamsValidateError('rectifyTile error:tileBBOX is null');
+    }
+    if (!transform) {
+        return createParamsValidateError('rectifyTile error:transform is null');
+    }
+    if (transformTypes.indexOf(transform) === -1) {
+        return createParamsValidateError('rectifyTile error:not support transformTo:' + transform + '.the support:' + transformTypes.join(',').toString());
+    }
+    return null;
+}
+
+const BatchValidators: Record<string, (options) => Error | null> = {
+    getTile: validateGetTile,
+    getTileWithMaxZoom: validateGetTileWithMaxZoom,
+    layoutTiles: validateLayoutTiles,
+    clipTile: validateClipTile,
+    transformTile: validateTransformTile,
+    rectifyTile: validateRectifyTile
+};
 
 class TileActor extends worker.Actor {
 
@@ -87,16 +273,93 @@ class TileActor extends worker.Actor {
         }
     }
 
+    _setTaskPriority(options: privateOptions, priority: number) {
+        const { workerId, taskId } = getTaskId(options);
+        if (!isNumber(workerId) || !isNumber(taskId) || !isNumber(priority)) {
+            return;
+        }
+        if (taskId) {
+            this.send({ __type: 'updateFetchPriority', __taskId: taskId, priority }, [], (error) => {
+            }, workerId);
+        }
+    }
+
+    /**
+     * cancel the tasks by one message of every worker
+     */
+    _cancelTasks(filter: (options: privateOptions) => boolean) {
+        const workerTasks: Record<number, Array<number>> = {};
+        let count = 0;
+        for (const key in taskMap) {
+            const { options, promise } = taskMap[key];
+            if (!filter(options)) {
+                continue;
+            }
+            delete taskMap[key];
+            promise.canceled = true;
+            count++;
+            const { workerId, taskId } = getTaskId(options);
+            if (!isNumber(workerId) || !isNumber(taskId)) {
+                continue;
+            }
+            workerTasks[workerId] = workerTasks[workerId] || [];
+            workerTasks[workerId].push(taskId);
+        }
+        for (const workerId in workerTasks) {
+            this.send({ __type: 'cancelTasks', taskIds: workerTasks[workerId] }, [], (error) => {
+            }, parseInt(workerId));
+        }
+        return count;
+    }
+
+    cancelGroup(group: string) {
+        if (!group) {
+            return 0;
+        }
+        return this._cancelTasks(options => {
+            return options.group === group;
+        });
+    }
+
+    cancelAll() {
+        return this._cancelTasks(() => {
+            return true;
+        });
+    }
+
+    /**
+     * the result of batch item from worker, when batch with onResult
+     */
+    _receiveBatchResult(params: { taskId: number, item: batchItemResultType }) {
+        const { taskId, item } = params;
+        const onResult = batchMap[taskId];
+        if (onResult) {
+            onResult(item);
+        } else {
+            disposeBatchItem(item);
+        }
+    }
+
+    /**
+     * the progress of task from worker
+     */
+    _receiveTaskProgress(progress: taskProgressType) {
+        const onProgress = progressMap[progress.taskId];
+        if (onProgress) {
+            onProgress(progress);
+        }
+    }
+
     getTile(options: getTileOptions) {
-        options = checkOptions(options, 'getTile');
+        options = checkProgress(checkOptions(options, 'getTile'));
         const { workerId } = getTaskId(options);
         const promise = new Promise((resolve: resolveResultType, reject: rejectResultType) => {
-            const { url } = options;
-            if (!url) {
-                reject(createParamsValidateError('getTile error:url is null'));
+            const error = validateGetTile(options);
+            if (error) {
+                reject(error);
                 return;
             }
-            const buffers = checkBuffers(url);
+            const buffers = checkBuffers(options.url);
             this.send(options, buffers, (error, image) => {
                 if (isErrorOrCancel(error, promise)) {
                     disposeImage(image);
@@ -111,16 +374,12 @@ class TileActor extends worker.Actor {
     }
 
     layoutTiles(options: layoutTilesOptions) {
-        options = checkOptions(options, 'layoutTiles');
+        options = checkProgress(checkOptions(options, 'layoutTiles'));
         const { workerId } = getTaskId(options);
         const promise = new Promise((resolve: resolveResultType, reject: rejectResultType) => {
-            const { urlTemplate, tiles } = options;
-            if (!urlTemplate) {
-                reject(createParamsValidateError('layoutTiles error:urlTemplate is null'));
-                return;
-            }
-            if (!tiles || tiles.length === 0) {
-                reject(createParamsValidateError('layoutTiles error:tiles is null'));
+            const error = validateLayoutTiles(options);
+            if (error) {
+                reject(error);
                 return;
             }
             const buffers = [];
@@ -138,29 +397,20 @@ class TileActor extends worker.Actor {
     }
 
     getTileWithMaxZoom(options: getTileWithMaxZoomOptions) {
-        options = checkOptions(options, 'getTileWithMaxZoom');
+        options = checkProgress(checkOptions(options, 'getTileWithMaxZoom'));
         const { workerId } = getTaskId(options);
-        const promise = new Promise((resolve: resolveResultType, reject: rejectResultType) => {
-            const { urlTemplate, maxAvailableZoom, x, y, z } = options;
-            const maxZoomEnable = maxAvailableZoom && isNumber(maxAvailableZoom) && maxAvailableZoom >= 1;
-            if (!maxZoomEnable) {
-                reject(createParamsValidateError('getTileWithMaxZoom error:maxAvailableZoom is error'));
+        const promise = new Promise((resolve: (result: ImageBitmap | string | ArrayBuffer | tileWithMaxZoomResultType) => void, reject: rejectResultType) => {
+            const error = validateGetTileWithMaxZoom(options);
+            if (error) {
+                reject(error);
                 return;
             }
-            if (!urlTemplate) {
-                reject(createParamsValidateError('getTileWithMaxZoom error:urlTemplate is error'));
-                return;
-            }
-            if (!isNumber(x) || !isNumber(y) || !isNumber(z)) {
-                reject(createParamsValidateError('getTileWithMaxZoom error:x/y/z is error'));
-                return;
-            }
-            this.send(options, [], (error, image) => {
+            this.send(options, [], (error, result) => {
                 if (isErrorOrCancel(error, promise)) {
-                    disposeImage(image);
+                    disposeImage(result && result.image ? result.image : result);
                     reject(error || FetchCancelError);
                 } else {
-                    resolve(image);
+                    resolve(result);
                 }
             }, workerId);
         });
@@ -169,29 +419,12 @@ class TileActor extends worker.Actor {
     }
 
     transformTile(options: transformTileOptions) {
-        options = checkOptions(options, 'transformTile');
+        options = checkProgress(checkOptions(options, 'transformTile'));
         const { workerId } = getTaskId(options);
         const promise = new Promise((resolve: resolveResultType, reject: rejectResultType) => {
-            const { urlTemplate, x, y, z, maxAvailableZoom, projection } = options;
-            const maxZoomEnable = maxAvailableZoom && isNumber(maxAvailableZoom) && maxAvailableZoom >= 1;
-            if (!projection) {
-                reject(createParamsValidateError('transformTile error:not find projection'));
-                return;
-            }
-            if (SUPPORTPROJECTION.indexOf(projection) === -1) {
-                reject(createParamsValidateError('transformTile error:not support projection:' + projection + '.the support:' + SUPPORTPROJECTION.join(',').toString()));
-                return;
-            }
-            if (!maxZoomEnable) {
-                reject(createParamsValidateError('transformTile error:maxAvailableZoom is error'));
-                return;
-            }
-            if (!urlTemplate) {
-                reject(createParamsValidateError('transformTile error:urlTemplate is error'));
-                return;
-            }
-            if (!isNumber(x) || !isNumber(y) || !isNumber(z)) {
-                reject(createParamsValidateError('transformTile error:x/y/z is error'));
+            const error = validateTransformTile(options);
+            if (error) {
+                reject(error);
                 return;
             }
             this.send(options, [], (error, image) => {
@@ -208,41 +441,12 @@ class TileActor extends worker.Actor {
     }
 
     rectifyTile(options: rectifyTileOptions) {
-        options = checkOptions(options, 'rectifyTile');
+        options = checkProgress(checkOptions(options, 'rectifyTile'));
         const { workerId } = getTaskId(options);
         const promise = new Promise((resolve: resolveResultType, reject: rejectResultType) => {
-            const { urlTemplate, x, y, z, maxAvailableZoom, projection, tileBBOX, transform } = options;
-            const maxZoomEnable = maxAvailableZoom && isNumber(maxAvailableZoom) && maxAvailableZoom >= 1;
-            if (!projection) {
-                reject(createParamsValidateError('rectifyTile error:not find projection'));
-                return;
-            }
-            if (SUPPORTPROJECTION.indexOf(projection) === -1) {
-                reject(createParamsValidateError('rectifyTile error:not support projection:' + projection + '.the support:' + SUPPORTPROJECTION.join(',').toString()));
-                return;
-            }
-            if (!maxZoomEnable) {
-                reject(createParamsValidateError('rectifyTile error:maxAvailableZoom is error'));
-                return;
-            }
-            if (!urlTemplate) {
-                reject(createParamsValidateError('rectifyTile error:urlTemplate is error'));
-                return;
-            }
-            if (!isNumber(x) || !isNumber(y) || !isNumber(z)) {
-                reject(createParamsValidateError('rectifyTile error:x/y/z is error'));
-                return;
-            }
-            if (!tileBBOX) {
-                reject(createParamsValidateError('rectifyTile error:tileBBOX is null'));
-                return;
-            }
-            if (!transform) {
-                reject(createParamsValidateError('rectifyTile error:transform is null'));
-                return;
-            }
-            if (transformTypes.indexOf(transform) === -1) {
-                reject(createParamsValidateError('rectifyTile error:not support transformTo:' + transform + '.the support:' + transformTypes.join(',').toString()));
+            const error = validateRectifyTile(options);
+            if (error) {
+                reject(error);
                 return;
             }
             this.send(options, [], (error, image) => {
@@ -260,32 +464,11 @@ class TileActor extends worker.Actor {
 
     clipTile(options: clipTileOptions) {
         options = checkOptions(options, 'clipTile');
-        delete (options as unknown as privateOptions).__taskId;
-        delete (options as unknown as privateOptions).__workerId;
+        const { workerId } = getTaskId(options);
         const promise = new Promise((resolve: resolveResultType, reject: rejectResultType) => {
-            const { tile, tileBBOX, projection, tileSize, maskId } = options;
-            if (!tile) {
-                reject(createParamsValidateError('clipTile error:tile is null.It should be a ImageBitmap'));
-                return;
-            }
-            if (!tileBBOX) {
-                reject(createParamsValidateError('clipTile error:tileBBOX is null'));
-                return;
-            }
-            if (!projection) {
-                reject(createParamsValidateError('clipTile error:projection is null'));
-                return;
-            }
-            if (!tileSize) {
-                reject(createParamsValidateError('clipTile error:tileSize is null'));
-                return;
-            }
-            if (!maskId) {
-                reject(createParamsValidateError('clipTile error:maskId is null'));
-                return;
-            }
-            if (!this.maskHasInjected(maskId)) {
-                reject(createParamsValidateError('not find mask by maskId:' + maskId));
+            const error = validateClipTile(options);
+            if (error) {
+                reject(error);
                 return;
             }
             const buffers: ArrayBuffer[] = [];
@@ -299,7 +482,7 @@ class TileActor extends worker.Actor {
                 } else {
                     resolve(image);
                 }
-            });
+            }, workerId);
         });
         wrapPromise(promise, options);
         return promise;
@@ -307,8 +490,7 @@ class TileActor extends worker.Actor {
 
     tileIntersectMask(options: tileIntersectMaskOptions) {
         options = checkOptions(options, 'tileIntersectMask');
-        delete (options as unknown as privateOptions).__taskId;
-        delete (options as unknown as privateOptions).__workerId;
+        const { workerId } = getTaskId(options);
         const promise = new Promise((resolve: (result: { intersect: boolean }) => void, reject: rejectResultType) => {
             const { tileBBOX, maskId } = options;
             if (!tileBBOX) {
@@ -330,7 +512,7 @@ class TileActor extends worker.Actor {
                 } else {
                     resolve(result);
                 }
-            });
+            }, workerId);
         });
         wrapPromise(promise, options);
         return promise;
@@ -397,8 +579,82 @@ class TileActor extends worker.Actor {
         return !!maskMap[maskId];
     }
 
+    injectTileSource(options: injectTileSourceOptions) {
+        const promise = new Promise((resolve, reject: rejectResultType) => {
+            const { id, type, data } = options || {} as injectTileSourceOptions;
+            if (!id) {
+                reject(createParamsValidateError('injectTileSource error:id is null'));
+                return;
+            }
+            if (isNumber(tileSourceMap[id])) {
+                reject(createParamsValidateError(`injectTileSource error:${id} has injected`));
+                return;
+            }
+            if (TileSourceTypes.indexOf(type) === -1) {
+                reject(createParamsValidateError('injectTileSource error:not support type:' + type + '.the support:' + TileSourceTypes.join(',').toString()));
+                return;
+            }
+            if (!(data instanceof ArrayBuffer)) {
+                reject(createParamsValidateError('injectTileSource error:data is not ArrayBuffer'));
+                return;
+            }
+            //transfer the data to one worker, the tasks of the tile source run in the worker
+            const workerId = getWorkerId();
+            this.send({
+                id,
+                sourceType: type,
+                data,
+                __type: 'injectTileSource'
+            }, [data], (error, result) => {
+                if (isErrorOrCancel(error, promise)) {
+                    reject(error || TaskCancelError);
+                    return;
+                }
+                resolve(null);
+                tileSourceMap[id] = workerId;
+            }, workerId);
+        });
+        wrapPromise(promise, {});
+        return promise;
+    }
+
+    removeTileSource(id: string) {
+        const promise = new Promise((resolve, reject: rejectResultType) => {
+            if (!id) {
+                reject(createParamsValidateError('removeTileSource error:id is null'));
+                return;
+            }
+            const workerId = tileSourceMap[id];
+            if (!isNumber(workerId)) {
+                resolve(null);
+                return;
+            }
+            this.send({
+                id,
+                __type: 'removeTileSource'
+            }, [], (error, data) => {
+                if (isErrorOrCancel(error, promise)) {
+                    reject(error || TaskCancelError);
+                    return;
+                }
+                resolve(null);
+                delete tileSourceMap[id];
+            }, workerId);
+        });
+        wrapPromise(promise, {});
+        return promise;
+    }
+
+    tileSourceHasInjected(id: string) {
+        if (!id) {
+            console.error('tileSourceHasInjected error:id is null');
+            return false;
+        }
+        return isNumber(tileSourceMap[id]);
+    }
+
     imageSlicing(options: getTileOptions) {
-        options = checkOptions(options, 'imageSlicing');
+        options = checkProgress(checkOptions(options, 'imageSlicing'));
         const { workerId } = getTaskId(options);
         const promise = new Promise((resolve: (data: sliceImageResultType) => void, reject: rejectResultType) => {
             const { url } = options;
@@ -456,6 +712,8 @@ class TileActor extends worker.Actor {
                             (opts as any).__type = 'imageToBlobURL';
                             (opts as any).items = subItems;
                             (opts as any)._workerId = workerId;
+                            //the encode phase has reported by imageSlicing
+                            delete (opts as any).__progress;
                             const buffers = subItems.map(item => item.image as ArrayBuffer);
                             this.send(opts, buffers, (error, resultItems) => {
                                 if (isErrorOrCancel(error, promise)) {
@@ -743,60 +1001,799 @@ class TileActor extends worker.Actor {
         return promise;
     }
 
-    getVTTile(options: getVTTileOptions) {
-        options = checkOptions(options, 'getVTTile');
-        const { workerId } = getTaskId(options);
-        const promise = new Promise((resolve: (buffer: ArrayBuffer) => void, reject: rejectResultType) => {
-            const { url } = options;
-            if (!url) {
-                reject(createParamsValidateError('getVTTile error:url is null'));
+    setFetchHostMaxCount(host: string, count: number) {
+        const promise = new Promise((resolve, reject: rejectResultType) => {
+            if (!host) {
+                reject(createParamsValidateError('setFetchHostMaxCount error:host is null'));
                 return;
             }
-            const buffers = checkBuffers(url);
-            this.send(options, buffers, (error, buffer) => {
+            host = Util.getAbsoluteURL(host);
+            this.broadcast({
+                host,
+                count,
+                __type: 'setFetchHostMaxCount'
+            }, [], (error, data) => {
                 if (isErrorOrCancel(error, promise)) {
-                    reject(error || FetchCancelError);
-                } else {
-                    resolve(buffer);
+                    reject(error || TaskCancelError);
+                    return;
                 }
-            }, workerId);
+                resolve(null);
+            });
         });
-        wrapPromise(promise, options);
+        wrapPromise(promise, {});
         return promise;
     }
 
-
-}
-
-let actor: TileActor;
-let logger = false;
-
-export function getTileActor(): TileActor | null {
-    if (!getCanvas()) {
-        if (!logger) {
-            console.error(CANVAS_ERROR_MESSAGE);
-            logger = true;
-        }
-        return null;
-    }
-    if (!actor) {
-        actor = new TileActor(WORKERNAME);
+    registerUrlToken(token: string, fn: (x: number, y: number, z: number, options: Record<string, any>) => string | number) {
+        const promise = new Promise((resolve, reject: rejectResultType) => {
+            if (!token) {
+                reject(createParamsValidateError('registerUrlToken error:token is null'));
+                return;
+            }
+            if (typeof fn !== 'function') {
+                reject(createParamsValidateError('registerUrlToken error:fn is not function'));
+                return;
+            }
+            this.broadcast({
+                token,
+                source: fn.toString(),
+                __type: 'registerUrlToken'
+            }, [], (error, data) => {
+                if (isErrorOrCancel(error, promise)) {
+                    reject(error || TaskCancelError);
+                    return;
+                }
+                resolve(null);
+            });
+        });
+        wrapPromise(promise, {});
+        return promise;
     }
-    return actor;
-}
-
-let globalWorkerId = 0;
-function getWorkerId() {
-    const actor = getTileActor();
-    const workers = actor.workers || [];
-    const id = globalWorkerId % workers.length;
-    globalWorkerId++;
-    return id;
-}
 
-function wrapPromise(promise: Promise<any>, options) {
-    promise.cancel = () => {
-        getTileActor()._cancelTask(options);
-        promise.canceled = true;
+    removeUrlToken(token: string) {
+        const promise = new Promise((resolve, reject: rejectResultType) => {
+            if (!token) {
+                reject(createParamsValidateError('removeUrlToken error:token is null'));
+                return;
+            }
+            this.broadcast({
+                token,
+                __type: 'removeUrlToken'
+            }, [], (error, data) => {
+                if (isErrorOrCancel(error, promise)) {
+                    reject(error || TaskCancelError);
+                    return;
+                }
+                resolve(null);
+            });
+        });
+        wrapPromise(promise, {});
+        return promise;
+    }
+
+    registerRequestTransformer(name: string, fn: (url: string, x: number, y: number, z: number, resourceType: string, params?: any) => requestTransformResultType | Promise<requestTransformResultType>, params?: any) {
+        const promise = new Promise((resolve, reject: rejectResultType) => {
+            if (!name) {
+                reject(createParamsValidateError('registerRequestTransformer error:name is null'));
+                return;
+            }
+            if (typeof fn !== 'function') {
+                reject(createParamsValidateError('registerRequestTransformer error:fn is not function'));
+                return;
+            }
+            this.broadcast({
+                name,
+                source: fn.toString(),
+                params,
+                __type: 'registerRequestTransformer'
+            }, [], (error, data) => {
+                if (isErrorOrCancel(error, promise)) {
+                    reject(error || TaskCancelError);
+                    return;
+                }
+                resolve(null);
+            });
+        });
+        wrapPromise(promise, {});
+        return promise;
+    }
+
+    registerFilter(name: string, fn: ((data: Uint8ClampedArray, width: number, height: number, params?: any) => void) | string) {
+        const promise = new Promise((resolve, reject: rejectResultType) => {
+            if (!name) {
+                reject(createParamsValidateError('registerFilter error:name is null'));
+                return;
+            }
+            if (isBuiltinFilter(name)) {
+                reject(createParamsValidateError('registerFilter error:the name is builtin filter:' + name));
+                return;
+            }
+            if (typeof fn !== 'function' && typeof fn !== 'string') {
+                reject(createParamsValidateError('registerFilter error:fn is not function'));
+                return;
+            }
+            this.broadcast({
+                name,
+                source: fn.toString(),
+                __type: 'registerFilter'
+            }, [], (error, data) => {
+                if (isErrorOrCancel(error, promise)) {
+                    reject(error || TaskCancelError);
+                    return;
+                }
+                resolve(null);
+            });
+        });
+        wrapPromise(promise, {});
+        return promise;
+    }
+
+    removeFilter(name: string) {
+        const promise = new Promise((resolve, reject: rejectResultType) => {
+            if (!name) {
+                reject(createParamsValidateError('removeFilter error:name is null'));
+                return;
+            }
+            this.broadcast({
+                name,
+                __type: 'removeFilter'
+            }, [], (error, data) => {
+                if (isErrorOrCancel(error, promise)) {
+                    reject(error || TaskCancelError);
+                    return;
+                }
+                resolve(null);
+            });
+        });
+        wrapPromise(promise, {});
+        return promise;
+    }
+
+    removeRequestTransformer(name: string) {
+        const promise = new Promise((resolve, reject: rejectResultType) => {
+            if (!name) {
+                reject(createParamsValidateError('removeRequestTransformer error:name is null'));
+                return;
+            }
+            this.broadcast({
+                name,
+                __type: 'removeRequestTransformer'
+            }, [], (error, data) => {
+                if (isErrorOrCancel(error, promise)) {
+                    reject(error || TaskCancelError);
+                    return;
+                }
+                resolve(null);
+            });
+        });
+        wrapPromise(promise, {});
+        return promise;
+    }
+
+    setIndexedDBCacheOptions(options: indexedDBCacheOptionsType) {
+        const promise = new Promise((resolve, reject: rejectResultType) => {
+            if (!options) {
+                reject(createParamsValidateError('setIndexedDBCacheOptions error:options is null'));
+                return;
+            }
+            const { maxAge, maxSize } = options;
+            if ((maxAge !== undefined && (!isNumber(maxAge) || maxAge < 0)) || (maxSize !== undefined && (!isNumber(maxSize) || maxSize < 0))) {
+                reject(createParamsValidateError('setIndexedDBCacheOptions error:maxAge/maxSize should be number and >=0'));
+                return;
+            }
+            this.broadcast({
+                options,
+                __type: 'setIndexedDBCacheOptions'
+            }, [], (error, data) => {
+                if (isErrorOrCancel(error, promise)) {
+                    reject(error || TaskCancelError);
+                    return;
+                }
+                resolve(null);
+            });
+        });
+        wrapPromise(promise, {});
+        return promise;
+    }
+
+    configure(options: tileCacheOptionsType) {
+        const promise = new Promise((resolve, reject: rejectResultType) => {
+            if (!options) {
+                reject(createParamsValidateError('configure error:options is null'));
+                return;
+            }
+            const { tileImageCacheMaxSize, tileBufferCacheMaxSize } = options;
+            const isError = (value: number) => {
+                return value !== undefined && (!isNumber(value) || value < 0);
+            };
+            if (isError(tileImageCacheMaxSize) || isError(tileBufferCacheMaxSize)) {
+                reject(createParamsValidateError('configure error:tileImageCacheMaxSize/tileBufferCacheMaxSize should be number and >=0'));
+                return;
+            }
+            this.broadcast({
+                options,
+                __type: 'setTileCacheOptions'
+            }, [], (error, data) => {
+                if (isErrorOrCancel(error, promise)) {
+                    reject(error || TaskCancelError);
+                    return;
+                }
+                resolve(null);
+            });
+        });
+        wrapPromise(promise, {});
+        return promise;
+    }
+
+    getTileCacheUsage() {
+        const promise = new Promise((resolve: (usage: tileCacheUsageType & { workers: Array<tileCacheUsageType> }) => void, reject: rejectResultType) => {
+            this.broadcast({
+                __type: 'getTileCacheUsage'
+            }, [], (error, workers: Array<tileCacheUsageType>) => {
+                if (isErrorOrCancel(error, promise)) {
+                    reject(error || TaskCancelError);
+                    return;
+                }
+                //the sum of all workers
+                const sum = (key: string) => {
+                    const stats = { count: 0, size: 0, maxSize: 0 };
+                    workers.forEach(usage => {
+                        stats.count += usage[key].count;
+                        stats.size += usage[key].size;
+                        stats.maxSize += usage[key].maxSize;
+                    });
+                    return stats;
+                };
+                resolve({
+                    tileImageCache: sum('tileImageCache'),
+                    tileBufferCache: sum('tileBufferCache'),
+                    workers
+                });
+            });
+        });
+        wrapPromise(promise, {});
+        return promise;
+    }
+
+    setConfig(config: tileActorConfigType) {
+        const promise = new Promise((resolve, reject: rejectResultType) => {
+            if (!config) {
+                reject(createParamsValidateError('setConfig error:config is null'));
+                return;
+            }
+            const { fetchMaxCount, tileCacheCount, imageSliceSize, transformTileSize, headers } = config;
+            const isError = (value: number, min: number) => {
+                return value !== undefined && (!isNumber(value) || value < min);
+            };
+            if (isError(fetchMaxCount, 1) || isError(tileCacheCount, 1) || isError(imageSliceSize, 1) || isError(transformTileSize, 1)) {
+                reject(createParamsValidateError('setConfig error:fetchMaxCount/tileCacheCount/imageSliceSize/transformTileSize should be number and >=1'));
+                return;
+            }
+            if (headers !== undefined && (!headers || typeof headers !== 'object' || Array.isArray(headers))) {
+                reject(createParamsValidateError('setConfig error:headers should be object'));
+                return;
+            }
+            this.broadcast({
+                config,
+                __type: 'setConfig'
+            }, [], (error, data) => {
+                if (isErrorOrCancel(error, promise)) {
+                    reject(error || TaskCancelError);
+                    return;
+                }
+                resolve(null);
+            });
+        });
+        wrapPromise(promise, {});
+        return promise;
+    }
+
+    getConfig() {
+        const promise = new Promise((resolve: (config: tileActorConfigType) => void, reject: rejectResultType) => {
+            this.send({ __type: 'getConfig' }, [], (error, config) => {
+                if (isErrorOrCancel(error, promise)) {
+                    reject(error || TaskCancelError);
+                    return;
+                }
+                resolve(config);
+            }, getWorkerId());
+        });
+        wrapPromise(promise, {});
+        return promise;
+    }
+
+    clearIndexedDBCache() {
+        const promise = new Promise((resolve, reject: rejectResultType) => {
+            this.send({ __type: 'clearIndexedDBCache' }, [], (error, data) => {
+                if (isErrorOrCancel(error, promise)) {
+                    reject(error || TaskCancelError);
+                    return;
+                }
+                resolve(null);
+            }, getWorkerId());
+        });
+        wrapPromise(promise, {});
+        return promise;
+    }
+
+    getIndexedDBCacheStats() {
+        const promise = new Promise((resolve: (stats: indexedDBCacheStatsType) => void, reject: rejectResultType) => {
+            this.send({ __type: 'getIndexedDBCacheStats' }, [], (error, stats) => {
+                if (isErrorOrCancel(error, promise)) {
+                    reject(error || TaskCancelError);
+                    return;
+                }
+                resolve(stats);
+            }, getWorkerId());
+        });
+        wrapPromise(promise, {});
+        return promise;
+    }
+
+    removeIndexedDBCacheByPrefix(prefix: string) {
+        const promise = new Promise((resolve: (count: number) => void, reject: rejectResultType) => {
+            if (!prefix) {
+                reject(createParamsValidateError('removeIndexedDBCacheByPrefix error:prefix is null'));
+                return;
+            }
+            this.send({ __type: 'removeIndexedDBCacheByPrefix', prefix: Util.getAbsoluteURL(prefix) }, [], (error, count) => {
+                if (isErrorOrCancel(error, promise)) {
+                    reject(error || TaskCancelError);
+                    return;
+                }
+                resolve(count);
+            }, getWorkerId());
+        });
+        wrapPromise(promise, {});
+        return promise;
+    }
+
+    exportIndexedDBCache(prefix?: string) {
+        const promise = new Promise((resolve: (blob: Blob) => void, reject: rejectResultType) => {
+            this.send({ __type: 'exportIndexedDBCache', prefix: prefix ? Util.getAbsoluteURL(prefix) : null }, [], (error, blob) => {
+                if (isErrorOrCancel(error, promise)) {
+                    reject(error || TaskCancelError);
+                    return;
+                }
+                resolve(blob);
+            }, getWorkerId());
+        });
+        wrapPromise(promise, {});
+        return promise;
+    }
+
+    importIndexedDBCache(data: Blob | ArrayBuffer) {
+        const promise = new Promise((resolve: (count: number) => void, reject: rejectResultType) => {
+            if (!(data instanceof Blob) && !(data instanceof ArrayBuffer)) {
+                reject(createParamsValidateError('importIndexedDBCache error:data should be Blob or ArrayBuffer'));
+                return;
+            }
+            this.send({ __type: 'importIndexedDBCache', data }, [], (error, count) => {
+                if (isErrorOrCancel(error, promise)) {
+                    reject(error || TaskCancelError);
+                    return;
+                }
+                resolve(count);
+            }, getWorkerId());
+        });
+        wrapPromise(promise, {});
+        return promise;
+    }
+
+    getVTTile(options: getVTTileOptions) {
+        options = checkOptions(options, 'getVTTile');
+        const { workerId } = getTaskId(options);
+        const promise = new Promise((resolve: (buffer: ArrayBuffer) => void, reject: rejectResultType) => {
+            const { url } = options;
+            if (!url) {
+                reject(createParamsValidateError('getVTTile error:url is null'));
+                return;
+            }
+            const buffers = checkBuffers(url);
+            this.send(options, buffers, (error, buffer) => {
+                if (isErrorOrCancel(error, promise)) {
+                    reject(error || FetchCancelError);
+                } else {
+                    resolve(buffer);
+                }
+            }, workerId);
+        });
+        wrapPromise(promise, options);
+        return promise;
+    }
+
+    seedTiles(options: seedTilesOptions) {
+        options = checkOptions(options, 'getSeedTiles');
+        const { workerId, taskId } = getTaskId(options);
+        //the running tasks of tiles chunk
+        const chunkTasks: Array<privateOptions> = [];
+        const cancelChunkTasks = () => {
+            chunkTasks.forEach(task => {
+                this._cancelTask(task);
+            });
+        };
+        const promise = new Promise((resolve: (result: seedTilesResultType) => void, reject: rejectResultType) => {
+            const { urlTemplate, bbox, maskId, minZoom, maxZoom, tiles, onProgress } = options;
+            if (!urlTemplate) {
+                reject(createParamsValidateError('seedTiles error:urlTemplate is error'));
+                return;
+            }
+            if (!Array.isArray(tiles)) {
+                if (maskId && !maskMap[maskId]) {
+                    reject(createParamsValidateError('seedTiles error:not find mask ,the maskId:' + maskId));
+                    return;
+                }
+                if (!maskId && (!Array.isArray(bbox) || bbox.length !== 4)) {
+                    reject(createParamsValidateError('seedTiles error:bbox is error'));
+                    return;
+                }
+                if (!isNumber(minZoom) || !isNumber(maxZoom) || minZoom < 0 || minZoom > maxZoom) {
+                    reject(createParamsValidateError('seedTiles error:minZoom/maxZoom is error'));
+                    return;
+                }
+            }
+            //the tiles of mask is checked in worker by its bbox
+            const maxTiles = getSeedMaxTiles(options);
+            const count = Array.isArray(tiles) ? tiles.length : (maskId ? 0 : getTileRangeCount(bbox, minZoom, maxZoom, options.projection));
+            if (count > maxTiles) {
+                reject(createParamsValidateError(`seedTiles error:the tiles count(${count}) is more than maxTiles(${maxTiles})`));
+                return;
+            }
+            //the function can not post to worker
+            const data = Object.assign({}, options);
+            delete data.onProgress;
+            delete data.tiles;
+            //the tiles in view load first
+            if (!isNumber(data.priority)) {
+                data.priority = SEED_PRIORITY;
+            }
+            const seed = (tiles: Array<[number, number, number]>) => {
+                const result: seedTilesResultType = {
+                    total: tiles.length,
+                    loaded: 0,
+                    skipped: 0,
+                    failed: 0,
+                    failedTiles: []
+                };
+                //the bytes downloaded by the chunk tasks
+                let bytes = 0;
+                const progress = () => {
+                    if (onProgress) {
+                        const { total, loaded, skipped, failed } = result;
+                        onProgress({ taskId, phase: 'fetch', fetched: loaded + skipped + failed, total, bytes, loaded, skipped, failed });
+                    }
+                };
+                let index = 0, finished = false;
+                const next = () => {
+                    if (finished) {
+                        return;
+                    }
+                    if (index >= tiles.length && chunkTasks.length === 0) {
+                        finished = true;
+                        resolve(result);
+                        return;
+                    }
+                    while (chunkTasks.length < SEED_CONCURRENCY && index < tiles.length) {
+                        const task = checkOptions(Object.assign({}, data, { tiles: tiles.slice(index, index + SEED_CHUNK_SIZE) }), 'seedTiles');
+                        index += SEED_CHUNK_SIZE;
+                        chunkTasks.push(task);
+                        //cancel it by cancelGroup/cancelAll
+                        addTask(task, promise);
+                        if (onProgress) {
+                            //only need the bytes of chunk task
+                            let chunkBytes = 0;
+                            task.__progress = true;
+                            progressMap[task.__taskId] = (chunkProgress: taskProgressType) => {
+                                bytes += chunkProgress.bytes - chunkBytes;
+                                chunkBytes = chunkProgress.bytes;
+                            };
+                        }
+                        this.send(task, [], (error, chunkResult: seedTilesChunkResultType) => {
+                            chunkTasks.splice(chunkTasks.indexOf(task), 1);
+                            removeTask(task);
+                            delete progressMap[task.__taskId];
+                            if (finished) {
+                                return;
+                            }
+                            if (isErrorOrCancel(error, promise)) {
+                                finished = true;
+                                cancelChunkTasks();
+                                reject(error || TaskCancelError);
+                                return;
+                            }
+                            result.loaded += chunkResult.loaded;
+                            result.skipped += chunkResult.skipped;
+                            result.failedTiles = result.failedTiles.concat(chunkResult.failedTiles);
+                            result.failed = result.failedTiles.length;
+                            progress();
+                            next();
+                        }, getTaskId(task).workerId);
+                    }
+                };
+                progress();
+                next();
+            };
+            if (Array.isArray(tiles)) {
+                seed(tiles);
+                return;
+            }
+            this.send(data, [], (error, tiles: Array<[number, number, number]>) => {
+                if (isErrorOrCancel(error, promise)) {
+                    reject(error || TaskCancelError);
+                    return;
+                }
+                seed(tiles);
+            }, workerId);
+        });
+        wrapPromise(promise, options);
+        const cancel = promise.cancel;
+        promise.cancel = () => {
+            cancel();
+            cancelChunkTasks();
+        };
+        return promise;
+    }
+
+    runPipeline(options: pipelineOptions) {
+        options = checkProgress(checkOptions(options, 'runPipeline'));
+        const { workerId } = getTaskId(options);
+        const promise = new Promise((resolve: resolveResultType, reject: rejectResultType) => {
+            const { source, steps } = options;
+            if (!source) {
+                reject(createParamsValidateError('runPipeline error:source is null'));
+                return;
+            }
+            if (!Array.isArray(steps)) {
+                reject(createParamsValidateError('runPipeline error:steps should be array'));
+                return;
+            }
+            for (let i = 0, len = steps.length; i < len; i++) {
+                const step = steps[i];
+                const type = step && step.type;
+                if (PipelineStepTypes.indexOf(type) === -1) {
+                    reject(createParamsValidateError('runPipeline error:not support step:' + type + '.the support:' + PipelineStepTypes.join(',').toString()));
+                    return;
+                }
+                if ((type === 'transform' || type === 'rectify') && i !== 0) {
+                    reject(createParamsValidateError('runPipeline error:' + type + ' should be the first step'));
+                    return;
+                }
+                if (type === 'encode' && i !== len - 1) {
+                    reject(createParamsValidateError('runPipeline error:encode should be the last step'));
+                    return;
+                }
+                if (type === 'clip') {
+                    const { maskId, tileBBOX } = step.options || {};
+                    if (!this.maskHasInjected(maskId)) {
+                        reject(createParamsValidateError('runPipeline error:not find mask by maskId:' + maskId));
+                        return;
+                    }
+                    if (!tileBBOX) {
+                        reject(createParamsValidateError('runPipeline error:the tileBBOX of clip is null'));
+                        return;
+                    }
+                }
+            }
+            const first = steps[0];
+            const fetchBySelf = first && (first.type === 'transform' || first.type === 'rectify');
+            if (fetchBySelf || source.urlTemplate) {
+                const { urlTemplate, x, y, z, maxAvailableZoom } = source;
+                const maxZoomEnable = maxAvailableZoom && isNumber(maxAvailableZoom) && maxAvailableZoom >= 1;
+                if (!urlTemplate || !maxZoomEnable || !isNumber(x) || !isNumber(y) || !isNumber(z)) {
+                    reject(createParamsValidateError('runPipeline error:the urlTemplate/maxAvailableZoom/x/y/z of source is error'));
+                    return;
+                }
+            } else if (!source.url && !isImageBitmap(source.image)) {
+                reject(createParamsValidateError('runPipeline error:source need url, urlTemplate or image'));
+                return;
+            }
+            const buffers = checkBuffers(source.url).concat(checkBuffers(source.image));
+            this.send(options, buffers, (error, image) => {
+                if (isErrorOrCancel(error, promise)) {
+                    disposeImage(image);
+                    reject(error || FetchCancelError);
+                } else {
+                    resolve(image);
+                }
+            }, workerId);
+        });
+        wrapPromise(promise, options);
+        return promise;
+    }
+
+    batch(operations: Array<batchOperationType>, batchOptions?: batchOptionsType) {
+        batchOptions = batchOptions || {};
+        const { onResult } = batchOptions;
+        const options = checkOptions({ group: batchOptions.group }, 'batch');
+        //the items use the injected tile source run in its worker
+        if (Array.isArray(operations)) {
+            for (let i = 0, len = operations.length; i < len; i++) {
+                const sourceWorkerId = getTileSourceWorkerId(operations[i] && operations[i].options);
+                if (isNumber(sourceWorkerId)) {
+                    options.__workerId = sourceWorkerId;
+                    break;
+                }
+            }
+        }
+        const { workerId, taskId } = getTaskId(options);
+        //the options of items
+        const items: Array<privateOptions> = [];
+        const canceledItems: Record<number, boolean> = {};
+        const results: Array<batchItemResultType> = [];
+        const promise = new Promise((resolve: (results: Array<batchItemResultType>) => void, reject: rejectResultType) => {
+            if (!Array.isArray(operations) || operations.length === 0) {
+                reject(createParamsValidateError('batch error:operations is null'));
+                return;
+            }
+            //the type of batch is the first supported type, the item of other type has error result
+            let type: string;
+            for (let i = 0, len = operations.length; i < len; i++) {
+                const operation = operations[i];
+                if (operation && BatchTypes.indexOf(operation.type) > -1) {
+                    type = operation.type;
+                    break;
+                }
+            }
+            if (!type) {
+                const firstType = operations[0] && operations[0].type;
+                reject(createParamsValidateError('batch error:not support operation type:' + firstType + '.the support:' + BatchTypes.join(',').toString()));
+                return;
+            }
+            const setResult = (item: batchItemResultType) => {
+                const { index } = item;
+                if (canceledItems[index] && !item.error) {
+                    disposeBatchItem(item);
+                    item = { index, error: FetchCancelError };
+                }
+                results[index] = item;
+                if (onResult) {
+                    onResult(item);
+                }
+            };
+            //validate the items before post to worker, the invalid item has error result and not run
+            const errors: Array<batchItemResultType> = [];
+            //the index of operations for the items run in worker
+            const runIndexes: Array<number> = [];
+            const runItems: Array<privateOptions> = [];
+            let buffers = [];
+            operations.forEach((operation, index) => {
+                let error: Error;
+                const itemType = operation && operation.type;
+                if (BatchTypes.indexOf(itemType) === -1) {
+                    error = createParamsValidateError('batch error:not support operation type:' + itemType + ',the index:' + index);
+                } else if (itemType !== type) {
+                    error = createParamsValidateError('batch error:the operations should be the same type,the index:' + index);
+                } else if (!operation.options) {
+                    error = createParamsValidateError('batch error:the options of operation is null,the index:' + index);
+                } else {
+                    error = BatchValidators[type](operation.options);
+                }
+                if (error) {
+                    errors.push({ index, error });
+                    return;
+                }
+                const item = checkOptions(operation.options, type);
+                //all items run in the worker of batch
+                item.__workerId = workerId;
+                //the function can not post to worker
+                delete item.onProgress;
+                buffers = buffers.concat(checkBuffers(item.url), checkBuffers(item.tile));
+                items[index] = item;
+                runIndexes.push(index);
+                runItems.push(item);
+            });
+            errors.forEach(item => {
+                setResult(item);
+            });
+            if (runItems.length === 0) {
+                resolve(results);
+                return;
+            }
+            //the index of worker result is the index of runItems
+            const setRunResult = (item: batchItemResultType) => {
+                setResult(Object.assign({}, item, { index: runIndexes[item.index] }));
+            };
+            if (onResult) {
+                batchMap[taskId] = setRunResult;
+            }
+            const data = Object.assign({}, options, {
+                operationType: type,
+                operations: runItems,
+                stream: !!onResult
+            });
+            this.send(data, buffers, (error, itemResults: Array<batchItemResultType>) => {
+                delete batchMap[taskId];
+                if (isErrorOrCancel(error, promise)) {
+                    (itemResults || []).concat(results).forEach(item => {
+                        disposeBatchItem(item);
+                    });
+                    reject(error || FetchCancelError);
+                    return;
+                }
+                itemResults.forEach(item => {
+                    //the result of stream has received
+                    if (!results[runIndexes[item.index]]) {
+                        setRunResult(item);
+                    }
+                });
+                resolve(results);
+            }, workerId);
+        });
+        wrapPromise(promise, options);
+        promise.cancelItem = (index: number) => {
+            const item = items[index];
+            if (!item || results[index] || canceledItems[index]) {
+                return;
+            }
+            canceledItems[index] = true;
+            this._cancelTask(item);
+        };
+        return promise;
+    }
+
+}
+
+function disposeBatchItem(item: batchItemResultType) {
+    if (!item || !item.result) {
+        return;
+    }
+    const result = item.result as any;
+    disposeImage(result.image || result);
+}
+
+let actor: TileActor;
+let logger = false;
+
+export function getTileActor(): TileActor | null {
+    if (!getCanvas()) {
+        if (!logger) {
+            console.error(CANVAS_ERROR_MESSAGE);
+            logger = true;
+        }
+        return null;
+    }
+    if (!actor) {
+        actor = new TileActor(WORKERNAME);
+    }
+    return actor;
+}
+
+let globalWorkerId = 0;
+function getWorkerId() {
+    const actor = getTileActor();
+    const workers = actor.workers || [];
+    const id = globalWorkerId % workers.length;
+    globalWorkerId++;
+    return id;
+}
+
+function addTask(options: privateOptions, promise: Promise<any>) {
+    const { taskId } = getTaskId(options);
+    if (!isNumber(taskId)) {
+        return;
+    }
+    taskMap[taskId] = { options, promise };
+}
+
+function removeTask(options: privateOptions) {
+    const { taskId } = getTaskId(options);
+    delete taskMap[taskId];
+}
+
+function wrapPromise(promise: Promise<any>, options) {
+    if (options && options.__taskId) {
+        addTask(options, promise);
+        const removeTaskAndProgress = () => {
+            removeTask(options);
+            delete progressMap[options.__taskId];
+        };
+        promise.then(removeTaskAndProgress, removeTaskAndProgress);
+    }
+    promise.cancel = () => {
+        getTileActor()._cancelTask(options);
+        promise.canceled = true;
+    }
+    promise.setPriority = (priority: number) => {
+        getTileActor()._setTaskPriority(options, priority);
     }
 }
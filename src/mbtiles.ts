@@ -0,0 +1,346 @@
+// MBTiles reader, read the tiles from sqlite database file, https://www.sqlite.org/fileformat.html
+import { createDataError, gunzipBuffer, isGzipBuffer } from './util';
+
+const SQLITE_MAGIC = 'SQLite format 3';
+const PAGE_INTERIOR_TABLE = 0x05, PAGE_LEAF_TABLE = 0x0d;
+const CONSTRAINT_KEYWORDS = ['CONSTRAINT', 'PRIMARY', 'UNIQUE', 'CHECK', 'FOREIGN'];
+
+type SQLiteDB = {
+    bytes: Uint8Array;
+    view: DataView;
+    pageSize: number;
+    usableSize: number;
+}
+
+type SQLiteCell = {
+    rowid: number;
+    payloadSize: number;
+    //the offset of payload in file
+    start: number;
+    //the payload size in the page, the others in overflow pages
+    localSize: number;
+    overflowPage: number;
+}
+
+type SQLiteTable = {
+    rootPage: number;
+    columns: Array<string>;
+    //the column of INTEGER PRIMARY KEY is alias of rowid
+    rowidColumn: number;
+}
+
+export type MBTilesArchive = {
+    db: SQLiteDB;
+    //z/x/tms row -> the cell of tile_data
+    tiles: Map<string, SQLiteCell>;
+    dataColumn: number;
+    rowidColumn: number;
+}
+
+function readVarint(bytes: Uint8Array, pos: number): [number, number] {
+    let value = 0;
+    for (let i = 0; i < 8; i++) {
+        const byte = bytes[pos + i];
+        value = value * 128 + (byte & 0x7f);
+        if (byte < 0x80) {
+            return [value, i + 1];
+        }
+    }
+    value = value * 256 + bytes[pos + 8];
+    return [value, 9];
+}
+
+function readInt(bytes: Uint8Array, pos: number, size: number) {
+    let value = 0;
+    for (let i = 0; i < size; i++) {
+        value = value * 256 + bytes[pos + i];
+    }
+    //negative
+    if (bytes[pos] & 0x80) {
+        value -= Math.pow(2, size * 8);
+    }
+    return value;
+}
+
+function serialTypeSize(serialType: number) {
+    if (serialType >= 12) {
+        return Math.floor((serialType - 12) / 2);
+    }
+    return [0, 1, 2, 3, 4, 6, 8, 8, 0, 0, 0, 0][serialType];
+}
+
+/**
+ * the values of record, the value is undefined if it is not in the bytes(overflow)
+ */
+function decodeRecord(bytes: Uint8Array, rowid: number, rowidColumn: number) {
+    const [headerSize, n] = readVarint(bytes, 0);
+    const serialTypes: Array<number> = [];
+    let pos = n;
+    while (pos < headerSize) {
+        const [serialType, len] = readVarint(bytes, pos);
+        serialTypes.push(serialType);
+        pos += len;
+    }
+    const values = [];
+    let offset = headerSize;
+    for (let i = 0, len = serialTypes.length; i < len; i++) {
+        const serialType = serialTypes[i];
+        const size = serialTypeSize(serialType);
+        if (offset + size > bytes.length) {
+            break;
+        }
+        let value = null;
+        if (serialType === 0) {
+            value = i === rowidColumn ? rowid : null;
+        } else if (serialType <= 6) {
+            value = readInt(bytes, offset, size);
+        } else if (serialType === 7) {
+            value = new DataView(bytes.buffer, bytes.byteOffset + offset, 8).getFloat64(0);
+        } else if (serialType === 8 || serialType === 9) {
+            value = serialType - 8;
+        } else if (serialType >= 12 && serialType % 2 === 0) {
+            value = bytes.subarray(offset, offset + size);
+        } else if (serialType >= 13) {
+            value = new TextDecoder().decode(bytes.subarray(offset, offset + size));
+        }
+        values[i] = value;
+        offset += size;
+    }
+    return values;
+}
+
+function getPageOffset(db: SQLiteDB, page: number) {
+    return (page - 1) * db.pageSize;
+}
+
+function readLeafCell(db: SQLiteDB, pageOffset: number, cellOffset: number): SQLiteCell {
+    const { bytes, view, usableSize } = db;
+    let pos = pageOffset + cellOffset;
+    const [payloadSize, n1] = readVarint(bytes, pos);
+    pos += n1;
+    const [rowid, n2] = readVarint(bytes, pos);
+    pos += n2;
+    const maxLocal = usableSize - 35;
+    let localSize = payloadSize;
+    if (payloadSize > maxLocal) {
+        const minLocal = Math.floor((usableSize - 12) * 32 / 255) - 23;
+        const size = minLocal + (payloadSize - minLocal) % (usableSize - 4);
+        localSize = size <= maxLocal ? size : minLocal;
+    }
+    return {
+        rowid,
+        payloadSize,
+        start: pos,
+        localSize,
+        overflowPage: localSize < payloadSize ? view.getUint32(pos + localSize) : 0
+    };
+}
+
+function readLocalPayload(db: SQLiteDB, cell: SQLiteCell) {
+    return db.bytes.subarray(cell.start, cell.start + cell.localSize);
+}
+
+function readPayload(db: SQLiteDB, cell: SQLiteCell) {
+    const { bytes, view, usableSize } = db;
+    const { start, localSize, payloadSize } = cell;
+    if (localSize === payloadSize) {
+        return readLocalPayload(db, cell);
+    }
+    const payload = new Uint8Array(payloadSize);
+    payload.set(bytes.subarray(start, start + localSize));
+    let size = localSize, page = cell.overflowPage;
+    while (page && size < payloadSize) {
+        const offset = getPageOffset(db, page);
+        const len = Math.min(usableSize - 4, payloadSize - size);
+        payload.set(bytes.subarray(offset + 4, offset + 4 + len), size);
+        size += len;
+        page = view.getUint32(offset);
+    }
+    return payload;
+}
+
+function eachTableCell(db: SQLiteDB, rootPage: number, fn: (cell: SQLiteCell) => void) {
+    const { bytes, view } = db;
+    const pages = [rootPage];
+    while (pages.length) {
+        const page = pages.pop();
+        const pageOffset = getPageOffset(db, page);
+        //the first page has the database header
+        const headerOffset = pageOffset + (page === 1 ? 100 : 0);
+        const pageType = bytes[headerOffset];
+        const count = view.getUint16(headerOffset + 3);
+        if (pageType === PAGE_LEAF_TABLE) {
+            for (let i = 0; i < count; i++) {
+                fn(readLeafCell(db, pageOffset, view.getUint16(headerOffset + 8 + i * 2)));
+            }
+        } else if (pageType === PAGE_INTERIOR_TABLE) {
+            pages.push(view.getUint32(headerOffset + 8));
+            for (let i = 0; i < count; i++) {
+                const cellOffset = view.getUint16(headerOffset + 12 + i * 2);
+                pages.push(view.getUint32(pageOffset + cellOffset));
+            }
+        } else {
+            throw createDataError('mbtiles data is error, not table page:' + page);
+        }
+    }
+}
+
+function parseColumns(sql: string) {
+    const columns: Array<string> = [];
+    let rowidColumn = -1;
+    const body = sql.substring(sql.indexOf('(') + 1, sql.lastIndexOf(')'));
+    let depth = 0, def = '';
+    const addColumn = () => {
+        def = def.trim();
+        const name = def.split(/\s+/)[0].replace(/^["'`[]|["'`\]]$/g, '');
+        if (name && CONSTRAINT_KEYWORDS.indexOf(name.toUpperCase()) === -1) {
+            if (/^\S+\s+integer\s+primary\s+key/i.test(def)) {
+                rowidColumn = columns.length;
+            }
+            columns.push(name);
+        }
+        def = '';
+    };
+    for (let i = 0, len = body.length; i < len; i++) {
+        const char = body[i];
+        if (char === '(') {
+            depth++;
+        } else if (char === ')') {
+            depth--;
+        } else if (char === ',' && depth === 0) {
+            addColumn();
+            continue;
+        }
+        def += char;
+    }
+    addColumn();
+    return { columns, rowidColumn };
+}
+
+function readTables(db: SQLiteDB) {
+    const tables: Record<string, SQLiteTable> = {};
+    //sqlite_master: type,name,tbl_name,rootpage,sql
+    eachTableCell(db, 1, cell => {
+        const [type, name, , rootPage, sql] = decodeRecord(readPayload(db, cell), cell.rowid, -1);
+        if (type !== 'table' || !sql) {
+            return;
+        }
+        const { columns, rowidColumn } = parseColumns(sql);
+        tables[name] = { rootPage, columns, rowidColumn };
+    });
+    return tables;
+}
+
+function readRecord(db: SQLiteDB, table: SQLiteTable, cell: SQLiteCell, columns: Array<number>) {
+    let values = decodeRecord(readLocalPayload(db, cell), cell.rowid, table.rowidColumn);
+    for (let i = 0, len = columns.length; i < len; i++) {
+        if (values[columns[i]] === undefined) {
+            values = decodeRecord(readPayload(db, cell), cell.rowid, table.rowidColumn);
+            break;
+        }
+    }
+    return values;
+}
+
+function getColumnIndexes(table: SQLiteTable, names: Array<string>) {
+    return names.map(name => {
+        return table.columns.indexOf(name);
+    });
+}
+
+export function openMBTiles(data: ArrayBuffer): MBTilesArchive | Error {
+    const bytes = new Uint8Array(data);
+    const view = new DataView(data);
+    const magic = String.fromCharCode.apply(null, Array.from(bytes.subarray(0, SQLITE_MAGIC.length)));
+    if (magic !== SQLITE_MAGIC) {
+        return createDataError('mbtiles data is not sqlite database');
+    }
+    let pageSize = view.getUint16(16);
+    //65536
+    if (pageSize === 1) {
+        pageSize = 65536;
+    }
+    const db: SQLiteDB = {
+        bytes,
+        view,
+        pageSize,
+        usableSize: pageSize - bytes[20]
+    };
+    try {
+        const tables = readTables(db);
+        const tiles = new Map<string, SQLiteCell>();
+        const tilesTable = tables.tiles;
+        if (tilesTable) {
+            const columns = getColumnIndexes(tilesTable, ['zoom_level', 'tile_column', 'tile_row', 'tile_data']);
+            if (columns.indexOf(-1) > -1) {
+                return createDataError('mbtiles tiles table columns is error');
+            }
+            const [zIndex, xIndex, yIndex] = columns;
+            eachTableCell(db, tilesTable.rootPage, cell => {
+                const values = readRecord(db, tilesTable, cell, [zIndex, xIndex, yIndex]);
+                tiles.set(`${values[zIndex]}/${values[xIndex]}/${values[yIndex]}`, cell);
+            });
+            return { db, tiles, dataColumn: columns[3], rowidColumn: tilesTable.rowidColumn };
+        }
+        //the tiles is view of map and images, such as mbutil,tippecanoe
+        const mapTable = tables.map, imagesTable = tables.images;
+        if (!mapTable || !imagesTable) {
+            return createDataError('mbtiles data is error, not find tiles table');
+        }
+        const mapColumns = getColumnIndexes(mapTable, ['zoom_level', 'tile_column', 'tile_row', 'tile_id']);
+        const imageColumns = getColumnIndexes(imagesTable, ['tile_id', 'tile_data']);
+        if (mapColumns.indexOf(-1) > -1 || imageColumns.indexOf(-1) > -1) {
+            return createDataError('mbtiles map/images table columns is error');
+        }
+        const images = new Map<string | number, SQLiteCell>();
+        const [imageIdIndex] = imageColumns;
+        eachTableCell(db, imagesTable.rootPage, cell => {
+            const values = readRecord(db, imagesTable, cell, [imageIdIndex]);
+            images.set(values[imageIdIndex], cell);
+        });
+        const [zIndex, xIndex, yIndex, idIndex] = mapColumns;
+        eachTableCell(db, mapTable.rootPage, cell => {
+            const values = readRecord(db, mapTable, cell, mapColumns);
+            const image = images.get(values[idIndex]);
+            if (image) {
+                tiles.set(`${values[zIndex]}/${values[xIndex]}/${values[yIndex]}`, image);
+            }
+        });
+        return { db, tiles, dataColumn: imageColumns[1], rowidColumn: imagesTable.rowidColumn };
+    } catch (error) {
+        return createDataError('mbtiles data is error:' + error.message);
+    }
+}
+
+/**
+ * the tile data of z/x/y, null if the tile not exist
+ */
+export function getMBTilesTile(archive: MBTilesArchive, z: number, x: number, y: number) {
+    return new Promise((resolve: (buffer: ArrayBuffer | null) => void, reject) => {
+        //the tile_row of mbtiles is TMS
+        const row = Math.pow(2, z) - 1 - y;
+        const cell = archive.tiles.get(`${z}/${x}/${row}`);
+        if (!cell) {
+            resolve(null);
+            return;
+        }
+        const { db, dataColumn, rowidColumn } = archive;
+        const values = decodeRecord(readPayload(db, cell), cell.rowid, rowidColumn);
+        const data: Uint8Array = values[dataColumn];
+        if (!data || !data.length) {
+            resolve(null);
+            return;
+        }
+        const buffer = data.slice().buffer;
+        //the vector tile is gzip compressed
+        if (!isGzipBuffer(buffer)) {
+            resolve(buffer);
+            return;
+        }
+        gunzipBuffer(buffer).then(buffer => {
+            resolve(buffer);
+        }).catch(error => {
+            reject(error);
+        });
+    });
+}
@@ -0,0 +1,265 @@
+// PMTiles v3 reader, https://github.com/protomaps/PMTiles/blob/main/spec/v3/spec.md
+import LRUCache from './LRUCache';
+import { createDataError, gunzipBuffer } from './util';
+
+const HEADER_SIZE = 127;
+//the header and root directory are in the first 16KB
+const ROOT_SIZE = 16384;
+const MAX_DIRECTORY_DEPTH = 3;
+
+const COMPRESSION_UNKNOWN = 0, COMPRESSION_NONE = 1, COMPRESSION_GZIP = 2;
+
+export type PMTilesHeader = {
+    specVersion: number;
+    rootDirectoryOffset: number;
+    rootDirectoryLength: number;
+    jsonMetadataOffset: number;
+    jsonMetadataLength: number;
+    leafDirectoryOffset: number;
+    leafDirectoryLength: number;
+    tileDataOffset: number;
+    tileDataLength: number;
+    internalCompression: number;
+    tileCompression: number;
+    tileType: number;
+    minZoom: number;
+    maxZoom: number;
+}
+
+type PMTilesEntry = {
+    tileId: number;
+    offset: number;
+    length: number;
+    runLength: number;
+}
+
+/**
+ * read the bytes of archive, fetchOptions is the options of the http range request
+ */
+export type PMTilesReader = (offset: number, length: number, fetchOptions?: Record<string, any>) => Promise<ArrayBuffer>;
+
+export type PMTilesArchive = {
+    header: PMTilesHeader;
+    rootEntries: Array<PMTilesEntry>;
+    read: PMTilesReader;
+    leafCache: LRUCache<Array<PMTilesEntry>>;
+}
+
+function readUint64(view: DataView, offset: number) {
+    return view.getUint32(offset + 4, true) * Math.pow(2, 32) + view.getUint32(offset, true);
+}
+
+function parseHeader(buffer: ArrayBuffer): PMTilesHeader | Error {
+    if (buffer.byteLength < HEADER_SIZE) {
+        return createDataError('pmtiles header is error');
+    }
+    const view = new DataView(buffer);
+    let magic = '';
+    for (let i = 0; i < 7; i++) {
+        magic += String.fromCharCode(view.getUint8(i));
+    }
+    const specVersion = view.getUint8(7);
+    if (magic !== 'PMTiles' || specVersion !== 3) {
+        return createDataError('not support pmtiles, only support pmtiles v3');
+    }
+    return {
+        specVersion,
+        rootDirectoryOffset: readUint64(view, 8),
+        rootDirectoryLength: readUint64(view, 16),
+        jsonMetadataOffset: readUint64(view, 24),
+        jsonMetadataLength: readUint64(view, 32),
+        leafDirectoryOffset: readUint64(view, 40),
+        leafDirectoryLength: readUint64(view, 48),
+        tileDataOffset: readUint64(view, 56),
+        tileDataLength: readUint64(view, 64),
+        internalCompression: view.getUint8(97),
+        tileCompression: view.getUint8(98),
+        tileType: view.getUint8(99),
+        minZoom: view.getUint8(100),
+        maxZoom: view.getUint8(101)
+    };
+}
+
+function decompress(buffer: ArrayBuffer, compression: number) {
+    if (compression === COMPRESSION_UNKNOWN || compression === COMPRESSION_NONE) {
+        return Promise.resolve(buffer);
+    }
+    if (compression !== COMPRESSION_GZIP) {
+        return Promise.reject(createDataError('not support pmtiles compression:' + compression));
+    }
+    return gunzipBuffer(buffer);
+}
+
+function deserializeDirectory(buffer: ArrayBuffer): Array<PMTilesEntry> {
+    const bytes = new Uint8Array(buffer);
+    let pos = 0;
+    //the value may be larger than 2^32, not use bit operation
+    const readVarint = () => {
+        let value = 0, shift = 1, byte;
+        do {
+            byte = bytes[pos++];
+            value += (byte & 0x7f) * shift;
+            shift *= 128;
+        } while (byte >= 0x80);
+        return value;
+    };
+    const numEntries = readVarint();
+    const entries: Array<PMTilesEntry> = [];
+    let lastId = 0;
+    for (let i = 0; i < numEntries; i++) {
+        lastId += readVarint();
+        entries.push({ tileId: lastId, offset: 0, length: 0, runLength: 1 });
+    }
+    for (let i = 0; i < numEntries; i++) {
+        entries[i].runLength = readVarint();
+    }
+    for (let i = 0; i < numEntries; i++) {
+        entries[i].length = readVarint();
+    }
+    for (let i = 0; i < numEntries; i++) {
+        const value = readVarint();
+        if (value === 0 && i > 0) {
+            //the tile data is next to the previous
+            entries[i].offset = entries[i - 1].offset + entries[i - 1].length;
+        } else {
+            entries[i].offset = value - 1;
+        }
+    }
+    return entries;
+}
+
+/**
+ * tile id on hilbert curve
+ */
+export function zxyToTileId(z: number, x: number, y: number) {
+    const n = Math.pow(2, z);
+    //the tile count of all lower zooms
+    let tileId = (Math.pow(4, z) - 1) / 3;
+    for (let s = n / 2; s >= 1; s /= 2) {
+        const rx = (x & s) > 0 ? 1 : 0;
+        const ry = (y & s) > 0 ? 1 : 0;
+        tileId += s * s * ((3 * rx) ^ ry);
+        //rotate
+        if (ry === 0) {
+            if (rx === 1) {
+                x = n - 1 - x;
+                y = n - 1 - y;
+            }
+            const t = x;
+            x = y;
+            y = t;
+        }
+    }
+    return tileId;
+}
+
+function findEntry(entries: Array<PMTilesEntry>, tileId: number) {
+    let m = 0, n = entries.length - 1;
+    while (m <= n) {
+        const k = (m + n) >> 1;
+        const cmp = tileId - entries[k].tileId;
+        if (cmp > 0) {
+            m = k + 1;
+        } else if (cmp < 0) {
+            n = k - 1;
+        } else {
+            return entries[k];
+        }
+    }
+    //run length or leaf directory
+    if (n >= 0) {
+        const entry = entries[n];
+        if (entry.runLength === 0 || tileId - entry.tileId < entry.runLength) {
+            return entry;
+        }
+    }
+    return null;
+}
+
+export function openPMTiles(read: PMTilesReader, fetchOptions?: Record<string, any>) {
+    return new Promise((resolve: (archive: PMTilesArchive) => void, reject) => {
+        read(0, ROOT_SIZE, fetchOptions).then(buffer => {
+            const header = parseHeader(buffer);
+            if (header instanceof Error) {
+                reject(header);
+                return;
+            }
+            const { rootDirectoryOffset, rootDirectoryLength } = header;
+            let rootBuffer: Promise<ArrayBuffer>;
+            if (rootDirectoryOffset + rootDirectoryLength <= buffer.byteLength) {
+                rootBuffer = Promise.resolve(buffer.slice(rootDirectoryOffset, rootDirectoryOffset + rootDirectoryLength));
+            } else {
+                rootBuffer = read(rootDirectoryOffset, rootDirectoryLength, fetchOptions);
+            }
+            return rootBuffer.then(data => {
+                return decompress(data, header.internalCompression);
+            }).then(data => {
+                resolve({
+                    header,
+                    rootEntries: deserializeDirectory(data),
+                    read,
+                    leafCache: new LRUCache<Array<PMTilesEntry>>(64, () => { })
+                });
+            });
+        }).catch(error => {
+            reject(error);
+        });
+    });
+}
+
+function getLeafEntries(archive: PMTilesArchive, offset: number, length: number, fetchOptions?: Record<string, any>) {
+    const key = offset + '-' + length;
+    const entries = archive.leafCache.get(key);
+    if (entries) {
+        return Promise.resolve(entries);
+    }
+    return archive.read(offset, length, fetchOptions).then(buffer => {
+        return decompress(buffer, archive.header.internalCompression);
+    }).then(buffer => {
+        const entries = deserializeDirectory(buffer);
+        archive.leafCache.add(key, entries);
+        return entries;
+    });
+}
+
+/**
+ * the tile data of z/x/y, null if the tile not exist
+ */
+export function getPMTilesTile(archive: PMTilesArchive, z: number, x: number, y: number, fetchOptions?: Record<string, any>) {
+    return new Promise((resolve: (buffer: ArrayBuffer | null) => void, reject) => {
+        const { header } = archive;
+        const size = Math.pow(2, z);
+        if (z < header.minZoom || z > header.maxZoom || x < 0 || y < 0 || x >= size || y >= size) {
+            resolve(null);
+            return;
+        }
+        const tileId = zxyToTileId(z, x, y);
+        const find = (entries: Array<PMTilesEntry>, depth: number) => {
+            const entry = findEntry(entries, tileId);
+            if (!entry) {
+                resolve(null);
+                return;
+            }
+            if (entry.runLength > 0) {
+                archive.read(header.tileDataOffset + entry.offset, entry.length, fetchOptions).then(buffer => {
+                    return decompress(buffer, header.tileCompression);
+                }).then(buffer => {
+                    resolve(buffer);
+                }).catch(error => {
+                    reject(error);
+                });
+                return;
+            }
+            if (depth >= MAX_DIRECTORY_DEPTH) {
+                reject(createDataError('pmtiles directory depth is too large'));
+                return;
+            }
+            getLeafEntries(archive, header.leafDirectoryOffset + entry.offset, entry.length, fetchOptions).then(leafEntries => {
+                find(leafEntries, depth + 1);
+            }).catch(error => {
+                reject(error);
+            });
+        };
+        find(archive.rootEntries, 0);
+    });
+}
@@ -1,7 +1,51 @@
 // @ts-ignore
 import localforage from './localforage.js';
+import { createDataError, getTileDataSize, isImageBitmap, isNumber, removeTimeOut } from './util';
+import { indexedDBCacheOptionsType, indexedDBCacheStatsType } from './types';
 
-let tempStore;
+let tempStore, tempMetaStore, tempStateStore;
+
+export type StoreTileValidators = {
+    etag?: string;
+    lastModified?: string;
+}
+
+export type StoreTileRevalidation = {
+    validators: StoreTileValidators | null;
+    expired: boolean;
+}
+
+type StoreTileMeta = {
+    time: number;
+    accessTime: number;
+    size: number;
+} & StoreTileValidators;
+
+type StorePackageEntry = {
+    key: string;
+    //the ImageBitmap is encoded to png
+    type: 'image' | 'buffer';
+    meta: StoreTileMeta;
+    offset: number;
+    length: number;
+}
+
+const STORE_PACKAGE_FORMAT = 'maptalks.tileclip.cache';
+const STORE_PACKAGE_VERSION = 1;
+
+//the scan of all tiles is expensive, only one worker evicts the tiles in the interval
+const EVICT_INTERVAL = 60 * 1000;
+const EVICT_TIME_KEY = 'evictTime';
+
+const ACCESS_TIME_DELAY = 5000;
+const ACCESS_TIME_PRECISION = 60 * 1000;
+//the metas waiting for the accessTime update
+const PendingAccessMetas: Record<string, StoreTileMeta> = {};
+
+const STOREOPTIONS: indexedDBCacheOptionsType = {
+    maxAge: 0,
+    maxSize: 0
+};
 
 function getStore() {
     if (!tempStore) {
@@ -14,15 +58,418 @@ function getStore() {
     return tempStore;
 }
 
-export function saveStoreTile(url: string, data: ImageBitmap | ArrayBuffer) {
-    getStore().setItem(url, data)
+function getStateStore() {
+    if (!tempStateStore) {
+        tempStateStore = localforage.createInstance({
+            name: 'maptalks.tileclip',
+            storeName: 'tilesstate',
+            description: 'Tile storage state(evict time) for maptalks.tileclip'
+        });
+    }
+    return tempStateStore;
+}
+
+function getMetaStore() {
+    if (!tempMetaStore) {
+        tempMetaStore = localforage.createInstance({
+            name: 'maptalks.tileclip',
+            storeName: 'tilesmeta',
+            description: 'Tile meta(time,size) storage for maptalks.tileclip'
+        });
+    }
+    return tempMetaStore;
+}
+
+function now() {
+    return new Date().getTime();
+}
+
+function isExpired(meta: StoreTileMeta) {
+    const { maxAge } = STOREOPTIONS;
+    return !!(meta && maxAge > 0 && now() - meta.time > maxAge);
+}
+
+export function setStoreOptions(options: indexedDBCacheOptionsType) {
+    options = options || {};
+    const { maxAge, maxSize } = options;
+    if (isNumber(maxAge) && maxAge >= 0) {
+        STOREOPTIONS.maxAge = maxAge;
+    }
+    if (isNumber(maxSize) && maxSize >= 0) {
+        STOREOPTIONS.maxSize = maxSize;
+    }
+    checkStore();
+}
+
+let checkTimeId, lastCheckTime = 0;
+
+function checkStore() {
+    const { maxAge, maxSize } = STOREOPTIONS;
+    if (checkTimeId || (!maxAge && !maxSize)) {
+        return;
+    }
+    const delay = Math.max(1000, lastCheckTime + EVICT_INTERVAL - now());
+    checkTimeId = setTimeout(() => {
+        removeTimeOut(checkTimeId);
+        checkTimeId = null;
+        lastCheckTime = now();
+        acquireEvict().then(owner => {
+            return owner ? evictStore() : 0;
+        }).catch(error => {
+            console.error('Error evict tiles', error);
+        });
+    }, delay);
+}
+
+/**
+ * the workers share the IndexedDB, resolve true if the current worker can evict the tiles
+ */
+function acquireEvict() {
+    const stateStore = getStateStore();
+    return stateStore.getItem(EVICT_TIME_KEY).then((evictTime: number) => {
+        const time = now();
+        if (evictTime && time - evictTime < EVICT_INTERVAL) {
+            return false;
+        }
+        return stateStore.setItem(EVICT_TIME_KEY, time).then(() => {
+            return true;
+        });
+    });
+}
+
+/**
+ * the meta of all tiles, the old tiles has not meta, create it without its size(accessTime is 0, so it will be evicted first)
+ */
+function getStoreMetas() {
+    const metas: Record<string, StoreTileMeta> = {};
+    return getMetaStore().iterate((meta: StoreTileMeta, url: string) => {
+        metas[url] = meta;
+    }).then(() => {
+        return getStore().keys();
+    }).then((keys: Array<string>) => {
+        return keys.map(url => {
+            let meta = metas[url];
+            if (!meta) {
+                meta = { time: now(), accessTime: 0, size: 0 };
+                getMetaStore().setItem(url, meta).catch(() => {
+
+                });
+            }
+            return { url, meta };
+        });
+    });
+}
+
+/**
+ * remove the expired tiles, and remove the least recently used tiles when the total size exceeds maxSize
+ */
+function evictStore() {
+    const { maxAge, maxSize } = STOREOPTIONS;
+    if (!maxAge && !maxSize) {
+        return Promise.resolve(0);
+    }
+    const items: Array<{ url: string, meta: StoreTileMeta }> = [];
+    const removeUrls: Array<string> = [];
+    let totalSize = 0;
+    return getStoreMetas().then(metas => {
+        metas.forEach(({ url, meta }) => {
+            if (isExpired(meta)) {
+                removeUrls.push(url);
+                return;
+            }
+            items.push({ url, meta });
+            totalSize += meta.size || 0;
+        });
+        if (maxSize > 0 && totalSize > maxSize) {
+            items.sort((a, b) => {
+                return a.meta.accessTime - b.meta.accessTime;
+            });
+            for (let i = 0, len = items.length; i < len; i++) {
+                if (totalSize <= maxSize) {
+                    break;
+                }
+                const { url, meta } = items[i];
+                removeUrls.push(url);
+                totalSize -= meta.size || 0;
+            }
+        }
+        return removeStoreTiles(removeUrls);
+    });
+}
+
+function removeStoreTiles(urls: Array<string>) {
+    return Promise.all(urls.map(url => {
+        delete PendingAccessMetas[url];
+        return Promise.all([getStore().removeItem(url), getMetaStore().removeItem(url)]);
+    })).then(() => {
+        return urls.length;
+    });
+}
+
+/**
+ * resolve when the tile is saved or failed, the ImageBitmap can be disposed after it
+ */
+export function saveStoreTile(url: string, data: ImageBitmap | ArrayBuffer, validators?: StoreTileValidators): Promise<void> {
+    delete PendingAccessMetas[url];
+    return getStore().setItem(url, data)
         .then(() => {
-            // console.log(`Tile saved: ${url}`);
+            const time = now();
+            const meta: StoreTileMeta = Object.assign({
+                time,
+                accessTime: time,
+                size: getTileDataSize(data)
+            }, validators);
+            return getMetaStore().setItem(url, meta);
+        }).then(() => {
+            checkStore();
         }).catch((error) => {
             console.error(`Error saving tile: ${url}`, error);
         });
 }
 
-export function getStoreTile(url: string): Promise<ImageBitmap | ArrayBuffer | null> {
-    return getStore().getItem(url)
-}
\ No newline at end of file
+let accessTimeId;
+
+/**
+ * the accessTime is only for LRU eviction, update it in batch and ignore the access in ACCESS_TIME_PRECISION
+ */
+function updateAccessTime(url: string, meta: StoreTileMeta) {
+    const time = now();
+    if (time - meta.accessTime < ACCESS_TIME_PRECISION) {
+        return;
+    }
+    meta.accessTime = time;
+    PendingAccessMetas[url] = meta;
+    if (accessTimeId) {
+        return;
+    }
+    accessTimeId = setTimeout(() => {
+        removeTimeOut(accessTimeId);
+        accessTimeId = null;
+        const metaStore = getMetaStore();
+        for (const key in PendingAccessMetas) {
+            metaStore.setItem(key, PendingAccessMetas[key]).catch(() => {
+
+            });
+            delete PendingAccessMetas[key];
+        }
+    }, ACCESS_TIME_DELAY);
+}
+
+/**
+ * allowStale: return the expired tile for stale-while-revalidate, the revalidation will refresh or replace it
+ */
+export function getStoreTile(url: string, allowStale = false): Promise<ImageBitmap | ArrayBuffer | null> {
+    return getMetaStore().getItem(url).then((meta: StoreTileMeta) => {
+        if (!allowStale && isExpired(meta)) {
+            return removeStoreTiles([url]).then(() => {
+                return null;
+            });
+        }
+        return getStore().getItem(url).then(data => {
+            if (data) {
+                //the old tiles has not meta
+                meta = meta || { time: now(), accessTime: 0, size: getTileDataSize(data) };
+                updateAccessTime(url, meta);
+            }
+            return data;
+        });
+    });
+}
+
+export function hasStoreTile(url: string): Promise<boolean> {
+    return getMetaStore().getItem(url).then((meta: StoreTileMeta) => {
+        if (meta) {
+            return !isExpired(meta);
+        }
+        //the old tiles has not meta
+        return getStore().getItem(url).then(data => {
+            return !!data;
+        });
+    });
+}
+
+export function getStoreTileRevalidation(url: string): Promise<StoreTileRevalidation> {
+    return getMetaStore().getItem(url).then((meta: StoreTileMeta) => {
+        if (!meta) {
+            return { validators: null, expired: false };
+        }
+        const { etag, lastModified } = meta;
+        return {
+            validators: etag || lastModified ? { etag, lastModified } : null,
+            expired: isExpired(meta)
+        };
+    });
+}
+
+/**
+ * the tile has not changed(304), refresh the time of tile
+ */
+export function touchStoreTile(url: string) {
+    const metaStore = getMetaStore();
+    return metaStore.getItem(url).then((meta: StoreTileMeta) => {
+        if (!meta) {
+            return;
+        }
+        const time = now();
+        meta.time = time;
+        //the accessTime update is waiting
+        if (PendingAccessMetas[url]) {
+            PendingAccessMetas[url].time = time;
+        }
+        return metaStore.setItem(url, meta);
+    }).catch(error => {
+        console.error(`Error update tile: ${url}`, error);
+    });
+}
+
+export function clearStore() {
+    for (const url in PendingAccessMetas) {
+        delete PendingAccessMetas[url];
+    }
+    return Promise.all([getStore().clear(), getMetaStore().clear()]);
+}
+
+export function getStoreStats(): Promise<indexedDBCacheStatsType> {
+    let count = 0, size = 0;
+    return getStoreMetas().then(metas => {
+        metas.forEach(({ meta }) => {
+            count++;
+            size += meta.size || 0;
+        });
+        const { maxAge, maxSize } = STOREOPTIONS;
+        return {
+            count,
+            size,
+            maxAge,
+            maxSize
+        };
+    });
+}
+
+export function removeStoreTilesByPrefix(prefix: string) {
+    return getStore().keys().then((keys: Array<string>) => {
+        const urls = keys.filter(key => {
+            return key.indexOf(prefix) === 0;
+        });
+        return removeStoreTiles(urls);
+    });
+}
+
+function encodeStoreTile(data: ImageBitmap | ArrayBuffer) {
+    if (!isImageBitmap(data)) {
+        return Promise.resolve(data as ArrayBuffer);
+    }
+    const image = data as ImageBitmap;
+    const canvas = new OffscreenCanvas(image.width, image.height);
+    const ctx = canvas.getContext('2d');
+    ctx.drawImage(image, 0, 0);
+    return canvas.convertToBlob({ type: 'image/png' }).then(blob => {
+        return blob.arrayBuffer();
+    });
+}
+
+/**
+ * the package of cache:4 bytes(the length of json header) + json header(key,type,meta of tiles) + tiles data
+ */
+export function exportStore(prefix?: string) {
+    return new Promise((resolve: (blob: Blob) => void, reject) => {
+        const metaStore = getMetaStore();
+        getStore().keys().then((keys: Array<string>) => {
+            if (prefix) {
+                keys = keys.filter(key => {
+                    return key.indexOf(prefix) === 0;
+                });
+            }
+            const entries: Array<StorePackageEntry> = [];
+            //append the tile to blob one by one, the browser can keep the blob data out of js memory
+            let body = new Blob([]);
+            let offset = 0;
+            const next = (index: number) => {
+                if (index >= keys.length) {
+                    return Promise.resolve();
+                }
+                const key = keys[index];
+                return Promise.all([getStore().getItem(key), metaStore.getItem(key)]).then(([data, meta]) => {
+                    if (!data) {
+                        return;
+                    }
+                    return encodeStoreTile(data).then(buffer => {
+                        if (isImageBitmap(data)) {
+                            (data as ImageBitmap).close();
+                        }
+                        const time = now();
+                        entries.push({
+                            key,
+                            type: isImageBitmap(data) ? 'image' : 'buffer',
+                            meta: meta || { time, accessTime: time, size: getTileDataSize(data) },
+                            offset,
+                            length: buffer.byteLength
+                        });
+                        body = new Blob([body, buffer]);
+                        offset += buffer.byteLength;
+                    });
+                }).then(() => {
+                    return next(index + 1);
+                });
+            };
+            return next(0).then(() => {
+                const header = new TextEncoder().encode(JSON.stringify({
+                    format: STORE_PACKAGE_FORMAT,
+                    version: STORE_PACKAGE_VERSION,
+                    entries
+                }));
+                const headerLength = new DataView(new ArrayBuffer(4));
+                headerLength.setUint32(0, header.byteLength, true);
+                resolve(new Blob([headerLength.buffer, header, body]));
+            });
+        }).catch(error => {
+            reject(error);
+        });
+    });
+}
+
+export function importStore(buffer: ArrayBuffer) {
+    return new Promise((resolve: (count: number) => void, reject) => {
+        let entries: Array<StorePackageEntry>, dataOffset: number;
+        try {
+            const headerLength = new DataView(buffer).getUint32(0, true);
+            const header = JSON.parse(new TextDecoder().decode(new Uint8Array(buffer, 4, headerLength)));
+            if (header.format !== STORE_PACKAGE_FORMAT) {
+                reject(createDataError('the data is not tile cache package'));
+                return;
+            }
+            entries = header.entries || [];
+            dataOffset = 4 + headerLength;
+        } catch (error) {
+            reject(createDataError('the data is not tile cache package'));
+            return;
+        }
+        const metaStore = getMetaStore();
+        const next = (index: number) => {
+            if (index >= entries.length) {
+                return Promise.resolve();
+            }
+            const { key, type, meta, offset, length } = entries[index];
+            const data = buffer.slice(dataOffset + offset, dataOffset + offset + length);
+            const decode = type === 'image' ? createImageBitmap(new Blob([data])) : Promise.resolve(data);
+            return decode.then(tile => {
+                return getStore().setItem(key, tile).then(() => {
+                    //the store has saved its copy
+                    if (isImageBitmap(tile)) {
+                        (tile as ImageBitmap).close();
+                    }
+                });
+            }).then(() => {
+                return metaStore.setItem(key, meta);
+            }).then(() => {
+                return next(index + 1);
+            });
+        };
+        next(0).then(() => {
+            checkStore();
+            resolve(entries.length);
+        }).catch(error => {
+            reject(error);
+        });
+    });
+}
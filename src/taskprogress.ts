@@ -0,0 +1,119 @@
+import { taskProgressPhaseType, taskProgressType } from './types';
+
+type TaskProgress = {
+    actorId: string;
+    progress: taskProgressType;
+}
+
+//the tasks need report progress to main thread
+const TaskProgressCache: Record<string, TaskProgress> = {};
+
+let workerSelf;
+
+export function setProgressWorker(self) {
+    workerSelf = self;
+}
+
+function getTaskProgress(options): TaskProgress | null {
+    if (!options || !options.__progress) {
+        return null;
+    }
+    return TaskProgressCache[options.__taskId] || null;
+}
+
+/**
+ * call the method of TileActor in main thread, the same as the request of maptalks worker Actor
+ */
+export function postActorRequest(actorId: string, command: string, params: any, buffers?: Array<any>) {
+    if (!workerSelf) {
+        return;
+    }
+    const message = {
+        type: '<request>',
+        actorId,
+        command,
+        params
+    };
+    if (buffers && buffers.length) {
+        workerSelf.postMessage(message, buffers);
+    } else {
+        workerSelf.postMessage(message);
+    }
+}
+
+function postTaskProgress(task: TaskProgress) {
+    postActorRequest(task.actorId, '_receiveTaskProgress', Object.assign({}, task.progress));
+}
+
+export function createTaskProgress(actorId: string, options) {
+    if (!options || !options.__progress || !options.__taskId) {
+        return;
+    }
+    TaskProgressCache[options.__taskId] = {
+        actorId,
+        progress: {
+            taskId: options.__taskId,
+            phase: 'fetch',
+            fetched: 0,
+            total: 0,
+            bytes: 0
+        }
+    };
+}
+
+export function removeTaskProgress(options) {
+    if (!options || !options.__taskId) {
+        return;
+    }
+    delete TaskProgressCache[options.__taskId];
+}
+
+/**
+ * a tile need fetch
+ */
+export function addTaskProgressTotal(options) {
+    const task = getTaskProgress(options);
+    if (!task) {
+        return;
+    }
+    task.progress.total++;
+}
+
+/**
+ * a tile has fetched(or from cache)
+ */
+export function addTaskProgressFetched(options) {
+    const task = getTaskProgress(options);
+    if (!task) {
+        return;
+    }
+    const { progress } = task;
+    progress.fetched = Math.min(progress.fetched + 1, progress.total);
+    postTaskProgress(task);
+}
+
+/**
+ * the bytes downloaded from network, it will be posted with the next fetched
+ */
+export function addTaskProgressBytes(options, bytes: number) {
+    const task = getTaskProgress(options);
+    if (!task) {
+        return;
+    }
+    task.progress.bytes += bytes || 0;
+}
+
+/**
+ * __progressPhase=false: the sub task(such as the tiles of transformTile) only report fetch
+ */
+export function setTaskProgressPhase(options, phase: taskProgressPhaseType) {
+    if (options && options.__progressPhase === false) {
+        return;
+    }
+    const task = getTaskProgress(options);
+    if (!task || task.progress.phase === phase) {
+        return;
+    }
+    task.progress.phase = phase;
+    postTaskProgress(task);
+}
@@ -0,0 +1,89 @@
+import { clip } from './tileclip';
+import { getTile, getTileWithMaxZoomResult, layout_Tiles } from './tileget';
+import { tileRectify } from './tilerectify';
+import { tileTransform } from './tiletransform';
+import { batchItemResultType } from './types';
+import { CancelTaskLRUCache, checkBuffers, createParamsValidateError, FetchCancelError } from './util';
+
+type BatchHandler = (options) => Promise<any>;
+
+const BatchHandlers: Record<string, BatchHandler> = {
+    getTile: (options) => {
+        return getTile(options.url, options);
+    },
+    getTileWithMaxZoom: (options) => {
+        return getTileWithMaxZoomResult(options).then(result => {
+            return options.fallbackToParent ? result : result.image;
+        });
+    },
+    layoutTiles: layout_Tiles,
+    clipTile: clip,
+    transformTile: tileTransform,
+    rectifyTile: tileRectify
+};
+
+//the task ids of batch items, cancel the batch will cancel all items
+const BatchTaskCache: Record<string, Array<number>> = {};
+
+export function getBatchItemTaskIds(taskId: number) {
+    return BatchTaskCache[taskId] || [];
+}
+
+export function getBatchItemBuffers(item: batchItemResultType) {
+    const { result } = item;
+    if (result && (result as any).image) {
+        return checkBuffers((result as any).image);
+    }
+    return checkBuffers(result);
+}
+
+function isCanceled(taskId) {
+    return !!taskId && CancelTaskLRUCache.has(taskId);
+}
+
+/**
+ * run the operations of same type in this worker, the error of item not reject the batch
+ */
+export function batchTiles(options, onResult?: (item: batchItemResultType) => void) {
+    return new Promise((resolve: (results: Array<batchItemResultType>) => void, reject) => {
+        const { operationType, __taskId } = options;
+        const operations: Array<Record<string, any>> = options.operations || [];
+        const handler = BatchHandlers[operationType];
+        if (!handler) {
+            reject(createParamsValidateError('not support batch operation type:' + operationType));
+            return;
+        }
+        if (operations.length === 0) {
+            resolve([]);
+            return;
+        }
+        BatchTaskCache[__taskId] = operations.map(item => {
+            return item.__taskId;
+        });
+        const results: Array<batchItemResultType> = [];
+        let count = 0;
+        const end = (item: batchItemResultType) => {
+            results[item.index] = item;
+            if (onResult) {
+                onResult(item);
+            }
+            count++;
+            if (count === operations.length) {
+                delete BatchTaskCache[__taskId];
+                resolve(results);
+            }
+        };
+        operations.forEach((operation, index) => {
+            Promise.resolve().then(() => {
+                if (isCanceled(__taskId) || isCanceled(operation.__taskId)) {
+                    throw FetchCancelError;
+                }
+                return handler(operation);
+            }).then(result => {
+                end({ index, result });
+            }).catch(error => {
+                end({ index, error });
+            });
+        });
+    });
+}
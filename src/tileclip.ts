@@ -25,6 +25,11 @@ export function removeMask(maskId: string) {
     delete GeoJSONCache[maskId];
 }
 
+export function getMaskBBOX(maskId: string): BBOXtype | null {
+    const feature = GeoJSONCache[maskId];
+    return feature ? feature.bbox : null;
+}
+
 function checkGeoJSONFeatureBBOX(feature: GeoJSONPolygon | GeoJSONMultiPolygon) {
     feature.bbox = feature.bbox || geojsonbbox(feature);
 }
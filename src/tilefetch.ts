@@ -5,38 +5,153 @@ import {
     isImageBitmap,
     createNetWorkError,
     removeTimeOut,
-    checkArray
+    checkArray,
+    isFetchDefaultError,
+    parseFunction,
+    createParamsValidateError,
+    getTileDataSize,
+    CONFIG
 } from './util';
-import { getStoreTile, saveStoreTile } from './store';
+import { fetchTileSourceData, isTileSourceUrl } from './tilesource';
+import { cacheKeyOptionsType, fetchRetryOptionsType, fetchTileParamsType, requestResourceType, tileCacheOptionsType, tileCacheUsageType } from './types';
+import { getStoreTile, getStoreTileRevalidation, hasStoreTile, saveStoreTile, StoreTileValidators, touchStoreTile } from './store';
+import { addTaskProgressBytes, addTaskProgressFetched, addTaskProgressTotal } from './taskprogress';
 
-const LRUCount = 500;
-
-const tileImageCache = new LRUCache<ImageBitmap>(LRUCount, (image) => {
+const tileImageCache = new LRUCache<ImageBitmap>(CONFIG.tileCacheCount, (image) => {
     disposeImage(image);
-});
-const tileBufferCache = new LRUCache<ArrayBuffer>(LRUCount, (buffer) => {
+}, getTileDataSize);
+const tileBufferCache = new LRUCache<ArrayBuffer>(CONFIG.tileCacheCount, (buffer) => {
     buffer = null;
-});
+}, getTileDataSize);
+
+export function setTileCacheOptions(options: tileCacheOptionsType) {
+    options = options || {};
+    const { tileImageCacheMaxSize, tileBufferCacheMaxSize } = options;
+    if (isNumber(tileImageCacheMaxSize) && tileImageCacheMaxSize >= 0) {
+        tileImageCache.setMaxBytes(tileImageCacheMaxSize);
+    }
+    if (isNumber(tileBufferCacheMaxSize) && tileBufferCacheMaxSize >= 0) {
+        tileBufferCache.setMaxBytes(tileBufferCacheMaxSize);
+    }
+}
+
+export function getTileCacheUsage(): tileCacheUsageType {
+    return {
+        tileImageCache: {
+            count: tileImageCache.data.size,
+            size: tileImageCache.bytes,
+            maxSize: tileImageCache.maxBytes
+        },
+        tileBufferCache: {
+            count: tileBufferCache.data.size,
+            size: tileBufferCache.bytes,
+            maxSize: tileBufferCache.maxBytes
+        }
+    };
+}
 
 type FetchQueueItem = {
     control: AbortController;
-    fetchRun: Function
+    fetchRun: Function;
+    origin: string;
+    priority: number;
+    order: number;
+}
+const FetchRuningQueue: Record<string, Array<FetchQueueItem>> = {};
+const FetchWaitQueue: Record<string, Array<FetchQueueItem>> = {};
+const FetchHostMaxCount: Record<string, number> = {};
+let fetchOrder = 0;
+
+function getUrlOrigin(url: string) {
+    try {
+        return new URL(url, self.location.href).origin;
+    } catch (error) {
+        return '';
+    }
+}
+
+function getHostMaxCount(origin: string) {
+    const count = FetchHostMaxCount[origin];
+    return isNumber(count) && count > 0 ? count : CONFIG.fetchMaxCount;
 }
-const FetchRuningQueue: number[] = [];
-const FetchWaitQueue: Array<FetchQueueItem> = [];
-const FETCHMAXCOUNT = 4;
 
-function addFetchQueue(control: AbortController, fetchRun: Function) {
-    if (FetchRuningQueue.length < FETCHMAXCOUNT) {
-        FetchRuningQueue.push(1);
-        control.runing = true;
-        fetchRun();
+export function setFetchHostMaxCount(host: string, count: number) {
+    const origin = getUrlOrigin(host);
+    if (!isNumber(count) || count <= 0) {
+        delete FetchHostMaxCount[origin];
     } else {
-        FetchWaitQueue.push({
-            control,
-            fetchRun
-        });
+        FetchHostMaxCount[origin] = Math.floor(count);
+    }
+    runFetchQueue(origin);
+}
+
+/**
+ * the config has changed
+ */
+export function updateFetchConfig() {
+    tileImageCache.setMaxSize(CONFIG.tileCacheCount);
+    tileBufferCache.setMaxSize(CONFIG.tileCacheCount);
+    for (const origin in FetchWaitQueue) {
+        runFetchQueue(origin);
+    }
+}
+
+function findQueueItem(queue: Array<FetchQueueItem>, control: AbortController) {
+    for (let i = 0, len = queue.length; i < len; i++) {
+        if (queue[i].control === control) {
+            return i;
+        }
     }
+    return -1;
+}
+
+function getWaitQueueItem(control: AbortController) {
+    for (let origin in FetchWaitQueue) {
+        const queue = FetchWaitQueue[origin];
+        const index = findQueueItem(queue, control);
+        if (index > -1) {
+            return queue[index];
+        }
+    }
+    return null;
+}
+
+//higher priority first, same priority by fifo
+function shiftWaitItem(queue: Array<FetchQueueItem>) {
+    let index = 0;
+    for (let i = 1, len = queue.length; i < len; i++) {
+        const item = queue[i], current = queue[index];
+        if (item.priority > current.priority || (item.priority === current.priority && item.order < current.order)) {
+            index = i;
+        }
+    }
+    return queue.splice(index, 1)[0];
+}
+
+function runFetchQueue(origin: string) {
+    const runingQueue = FetchRuningQueue[origin] = FetchRuningQueue[origin] || [];
+    const waitQueue = FetchWaitQueue[origin] || [];
+    const maxCount = getHostMaxCount(origin);
+    while (waitQueue.length && runingQueue.length < maxCount) {
+        const item = shiftWaitItem(waitQueue);
+        runingQueue.push(item);
+        item.control.runing = true;
+        item.fetchRun();
+    }
+}
+
+function addFetchQueue(control: AbortController, fetchRun: Function, url: string, options) {
+    const origin = getUrlOrigin(url);
+    const priority = options.priority;
+    FetchWaitQueue[origin] = FetchWaitQueue[origin] || [];
+    FetchWaitQueue[origin].push({
+        control,
+        fetchRun,
+        origin,
+        priority: isNumber(priority) ? priority : 0,
+        order: fetchOrder++
+    });
+    runFetchQueue(origin);
 }
 
 function removeFetchQueue(controls: Array<AbortController>) {
@@ -44,47 +159,66 @@ function removeFetchQueue(controls: Array<AbortController>) {
     if (!controls.length) {
         return;
     }
+    const origins = [];
     controls.forEach(control => {
-        if (FetchRuningQueue.length) {
-            FetchRuningQueue.shift();
-        }
-        if (FetchWaitQueue.length) {
-            let item = FetchWaitQueue.filter(item => {
-                return item.control === control;
-            })[0];
-            if (item) {
-                const index = FetchWaitQueue.indexOf(item);
-                if (index > -1) {
-                    FetchWaitQueue.splice(index, 1);
-                }
+        for (let origin in FetchRuningQueue) {
+            const queue = FetchRuningQueue[origin];
+            const index = findQueueItem(queue, control);
+            if (index > -1) {
+                queue.splice(index, 1);
+                origins.push(origin);
             }
         }
-        if (FetchWaitQueue.length && FetchRuningQueue.length < FETCHMAXCOUNT) {
-            const item = FetchWaitQueue.shift();
-            addFetchQueue(item.control, item.fetchRun);
+        for (let origin in FetchWaitQueue) {
+            const queue = FetchWaitQueue[origin];
+            const index = findQueueItem(queue, control);
+            if (index > -1) {
+                queue.splice(index, 1);
+            }
         }
     });
-
-
+    origins.forEach(origin => {
+        runFetchQueue(origin);
+    });
 }
 
-
 const CONTROLCACHE: Record<string, Array<AbortController>> = {};
 
 function cacheFetch(taskId: string, control: AbortController) {
     CONTROLCACHE[taskId] = CONTROLCACHE[taskId] || [];
-    CONTROLCACHE[taskId].push(control);
+    if (CONTROLCACHE[taskId].indexOf(control) === -1) {
+        CONTROLCACHE[taskId].push(control);
+    }
 }
 
 export function cancelFetch(taskId: string) {
-    const controlList = CONTROLCACHE[taskId] || [];
-    if (controlList.length) {
-        controlList.forEach(control => {
+    const controlList = (CONTROLCACHE[taskId] || []).slice(0);
+    delete CONTROLCACHE[taskId];
+    controlList.forEach(control => {
+        const item = getInflightFetch(control);
+        if (!item) {
             abortFetch(control, FetchCancelError);
+            removeFetchQueue([control]);
+            return;
+        }
+        const subscribers = item.subscribers.filter(subscriber => {
+            return subscriber.taskId === taskId;
         });
+        removeFetchSubscribers(item, subscribers, FetchCancelError);
+    });
+}
+
+export function updateFetchPriority(taskId: string, priority: number) {
+    if (!isNumber(priority)) {
+        return;
     }
-    removeFetchQueue(controlList);
-    delete CONTROLCACHE[taskId];
+    const controlList = CONTROLCACHE[taskId] || [];
+    controlList.forEach(control => {
+        const item = getWaitQueueItem(control);
+        if (item) {
+            item.priority = priority;
+        }
+    });
 }
 
 function finishFetch(control: AbortController) {
@@ -115,35 +249,443 @@ function abortFetch(constrol: AbortController, error: Error) {
     }
 }
 
-function generateFetchOptions(headers, options, reject: Function) {
-    const fetchOptions = options.fetchOptions || {
+function generateFetchOptions(headers, options) {
+    //copy it,the fetchOptions of task is shared by all fetches
+    const fetchOptions = Object.assign({}, options.fetchOptions || {
         headers,
         referrer: options.referrer
+    });
+    const control = new AbortController();
+    fetchOptions.signal = control.signal;
+    delete fetchOptions.timeout;
+    return {
+        fetchOptions,
+        control
+    }
+}
+
+type FetchSubscriber = {
+    taskId: string;
+    resolve: Function;
+    reject: Function;
+    tid?: ReturnType<typeof setTimeout>;
+}
+
+type InflightFetchItem = {
+    key: string;
+    control: AbortController;
+    fetchOptions: Record<string, any>;
+    subscribers: Array<FetchSubscriber>;
+}
+
+//the same url requests of different tasks share one fetch
+const InflightFetchCache: Record<string, InflightFetchItem> = {};
+
+function getInflightFetch(control: AbortController) {
+    for (let key in InflightFetchCache) {
+        const item = InflightFetchCache[key];
+        if (item.control === control) {
+            return item;
+        }
+    }
+    return null;
+}
+
+function createInflightFetch(key: string, headers, options) {
+    const { fetchOptions, control } = generateFetchOptions(headers, options);
+    const item: InflightFetchItem = {
+        key,
+        control,
+        fetchOptions,
+        subscribers: []
+    };
+    InflightFetchCache[key] = item;
+    return item;
+}
+
+/**
+ * only the requests with the same url and fetch options can share one fetch, such as the headers(auth token) may be different
+ */
+function getInflightFetchKey(type: 'image' | 'buffer', cacheKey: string, headers, options, params?: fetchTileParamsType) {
+    const { fetchOptions, referrer, requestTransformer, retry, indexedDBCache, indexedDBCacheRevalidate, disableCache } = options;
+    const mirrorUrls = (params && params.mirrorUrls) || [];
+    const requestKey = JSON.stringify([fetchOptions || headers, referrer, requestTransformer, retry, mirrorUrls,
+        !!indexedDBCache, !!indexedDBCacheRevalidate, disableCache === true]);
+    return type + ':' + cacheKey + ':' + requestKey;
+}
+
+function isInflightFetch(item: InflightFetchItem) {
+    return InflightFetchCache[item.key] === item;
+}
+
+function addFetchSubscriber(item: InflightFetchItem, options, resolve: Function, reject: Function) {
+    const taskId = options.__taskId;
+    const subscriber: FetchSubscriber = {
+        taskId,
+        resolve,
+        reject
     };
     const timeout = options.timeout || 0;
-    const control = new AbortController();
-    control.reject = reject;
-    const signal = control.signal;
     if (timeout && isNumber(timeout) && timeout > 0) {
-        const tid = setTimeout(() => {
-            abortFetch(control, FetchTimeoutError);
-            removeTimeOut(tid);
+        subscriber.tid = setTimeout(() => {
+            removeFetchSubscribers(item, [subscriber], FetchTimeoutError);
         }, timeout);
     }
-    fetchOptions.signal = signal;
-    delete fetchOptions.timeout;
+    item.subscribers.push(subscriber);
+    cacheFetch(taskId, item.control);
+    const priority = options.priority;
+    const queueItem = getWaitQueueItem(item.control);
+    if (queueItem && isNumber(priority) && priority > queueItem.priority) {
+        queueItem.priority = priority;
+    }
+}
+
+function removeFetchSubscribers(item: InflightFetchItem, subscribers: Array<FetchSubscriber>, error: Error) {
+    subscribers.forEach(subscriber => {
+        const index = item.subscribers.indexOf(subscriber);
+        if (index === -1) {
+            return;
+        }
+        item.subscribers.splice(index, 1);
+        removeTimeOut(subscriber.tid);
+        subscriber.reject(error);
+    });
+    //no task need it,abort the fetch
+    if (item.subscribers.length === 0 && isInflightFetch(item)) {
+        delete InflightFetchCache[item.key];
+        abortFetch(item.control, error);
+        finishFetch(item.control);
+    }
+}
+
+/**
+ * resolve when all subscribers have got the data, such as the copy of ImageBitmap has created
+ */
+function finishInflightFetch(item: InflightFetchItem, error: Error, data?: ImageBitmap | ArrayBuffer) {
+    if (isInflightFetch(item)) {
+        delete InflightFetchCache[item.key];
+    }
+    finishFetch(item.control);
+    const subscribers = item.subscribers;
+    item.subscribers = [];
+    return Promise.all(subscribers.map(subscriber => {
+        removeTimeOut(subscriber.tid);
+        if (error) {
+            subscriber.reject(error);
+            return null;
+        }
+        return subscriber.resolve(data);
+    }));
+}
+
+type RequestTransformer = {
+    fn: Function;
+    params?: any;
+}
+
+const RequestTransformers: Record<string, RequestTransformer> = {};
+
+export function registerRequestTransformer(name: string, source: string, params?: any) {
+    const fn = parseFunction(source);
+    if (fn instanceof Error) {
+        return fn;
+    }
+    RequestTransformers[name] = {
+        fn,
+        params
+    };
+}
+
+export function removeRequestTransformer(name: string) {
+    delete RequestTransformers[name];
+}
+
+/**
+ * transform the url/headers of request by the registered transformer, such as sign url or auth headers
+ * transformer: (url, x, y, z, resourceType, params) => { url?, headers? } or Promise
+ */
+export function transformRequest(url: string, fetchOptions, options, tileParams: fetchTileParamsType, resourceType: requestResourceType) {
+    return new Promise((resolve: (request: { url: string, fetchOptions: Record<string, any> }) => void, reject) => {
+        const name = options.requestTransformer;
+        if (!name) {
+            resolve({ url, fetchOptions });
+            return;
+        }
+        const transformer = RequestTransformers[name];
+        if (!transformer) {
+            reject(createParamsValidateError('not find requestTransformer:' + name));
+            return;
+        }
+        const { x, y, z } = tileParams || {};
+        Promise.resolve().then(() => {
+            return transformer.fn(url, x, y, z, resourceType, transformer.params);
+        }).then(result => {
+            result = result || {};
+            const newFetchOptions = Object.assign({}, fetchOptions);
+            if (result.headers) {
+                newFetchOptions.headers = Object.assign({}, fetchOptions.headers, result.headers);
+            }
+            resolve({
+                url: result.url || url,
+                fetchOptions: newFetchOptions
+            });
+        }).catch(error => {
+            reject(error);
+        });
+    });
+}
+
+const RETRY_STATUSCODES = [408, 429, 500, 502, 503, 504];
+
+function getRetryOptions(retry: fetchRetryOptionsType) {
+    retry = retry || {};
+    const maxAttempts = retry.maxAttempts;
     return {
-        fetchOptions,
-        control
+        maxAttempts: isNumber(maxAttempts) && maxAttempts > 1 ? Math.floor(maxAttempts) : 1,
+        delay: isNumber(retry.delay) && retry.delay >= 0 ? retry.delay : 200,
+        factor: isNumber(retry.factor) && retry.factor >= 1 ? retry.factor : 2,
+        maxDelay: isNumber(retry.maxDelay) && retry.maxDelay >= 0 ? retry.maxDelay : 5000,
+        statusCodes: Array.isArray(retry.statusCodes) ? retry.statusCodes : RETRY_STATUSCODES
+    };
+}
+
+/**
+ * fetch arraybuffer with retry, when all attempts of the url fail, try the mirror urls in order
+ */
+type FetchResult = {
+    buffer: ArrayBuffer;
+    validators: StoreTileValidators;
+}
+
+function getResponseValidators(res: Response): StoreTileValidators {
+    const validators: StoreTileValidators = {};
+    //cross origin etag need Access-Control-Expose-Headers
+    const etag = res.headers.get('ETag');
+    const lastModified = res.headers.get('Last-Modified');
+    if (etag) {
+        validators.etag = etag;
+    }
+    if (lastModified) {
+        validators.lastModified = lastModified;
+    }
+    return validators;
+}
+
+/**
+ * the body of the failed response is not read, cancel it to release the connection
+ */
+function cancelResponse(res: Response) {
+    if (res.body && !res.bodyUsed) {
+        res.body.cancel().catch(() => {
+
+        });
+    }
+}
+
+function fetchArrayBuffer(url: string, params: fetchTileParamsType, fetchOptions, options, resourceType: requestResourceType) {
+    return new Promise((resolve: (result: FetchResult) => void, reject) => {
+        params = params || {};
+        const urls = [url].concat(params.mirrorUrls || []);
+        const { maxAttempts, delay, factor, maxDelay, statusCodes } = getRetryOptions(options.retry);
+        const signal: AbortSignal = fetchOptions.signal;
+        let urlIndex = 0, attempt = 0;
+
+        const wait = (time: number) => {
+            const onAbort = () => {
+                removeTimeOut(tid);
+                reject(signal.reason);
+            };
+            const tid = setTimeout(() => {
+                removeTimeOut(tid);
+                signal.removeEventListener('abort', onAbort);
+                run();
+            }, time);
+            signal.addEventListener('abort', onAbort);
+        };
+
+        const next = (error: Error, status?: number) => {
+            attempt++;
+            const canRetry = !isNumber(status) || statusCodes.indexOf(status) > -1;
+            if (canRetry && attempt < maxAttempts) {
+                wait(Math.min(delay * Math.pow(factor, attempt - 1), maxDelay));
+                return;
+            }
+            if (urlIndex < urls.length - 1) {
+                urlIndex++;
+                attempt = 0;
+                run();
+                return;
+            }
+            reject(error);
+        };
+
+        const run = () => {
+            if (signal.aborted) {
+                reject(signal.reason);
+                return;
+            }
+            const currentUrl = urls[urlIndex];
+            //pmtiles etc.
+            if (isTileSourceUrl(currentUrl)) {
+                fetchTileSourceData(currentUrl, fetchOptions).then(buffer => {
+                    addTaskProgressBytes(options, buffer.byteLength);
+                    resolve({ buffer, validators: {} });
+                }).catch(error => {
+                    if (signal.aborted || isFetchDefaultError(error)) {
+                        reject(error);
+                        return;
+                    }
+                    next(error, error.status);
+                });
+                return;
+            }
+            //transform the request every time, the token may have changed
+            transformRequest(currentUrl, fetchOptions, options, params, resourceType).then(request => {
+                return fetch(request.url, request.fetchOptions);
+            }).then(res => {
+                if (!res.ok) {
+                    cancelResponse(res);
+                    next(createNetWorkError(currentUrl, res.status), res.status);
+                    return;
+                }
+                const validators = getResponseValidators(res);
+                return res.arrayBuffer().then(buffer => {
+                    addTaskProgressBytes(options, buffer.byteLength);
+                    resolve({ buffer, validators });
+                });
+            }).catch(error => {
+                if (signal.aborted || isFetchDefaultError(error)) {
+                    reject(error);
+                    return;
+                }
+                next(error);
+            });
+        };
+        run();
+    });
+}
+
+const REVALIDATE_PRIORITY = -1;
+const RevalidateCache: Record<string, boolean> = {};
+
+/**
+ * the cache key of url, remove the query params(such as token) and subdomain which change frequently
+ */
+function getCacheKey(url: string, options) {
+    const cacheKey: cacheKeyOptionsType = options.cacheKey;
+    if (!cacheKey) {
+        return url;
+    }
+    let { ignoreParams, ignoreSubdomains } = cacheKey;
+    let urlObj: URL;
+    try {
+        urlObj = new URL(url, self.location.href);
+    } catch (error) {
+        return url;
+    }
+    if (ignoreParams && ignoreParams.length) {
+        ignoreParams.forEach(param => {
+            urlObj.searchParams.delete(param);
+        });
+    }
+    if (ignoreSubdomains) {
+        const subdomains: Array<string> = Array.isArray(ignoreSubdomains) ? ignoreSubdomains : (options.subdomains || []);
+        //the subdomain is the first label of hostname, such as a.tile.xxx.org,t0.xxx.cn(the subdomains is ['t0', 't1'...])
+        const labels = urlObj.hostname.split('.');
+        const label = labels[0];
+        for (let i = 0, len = subdomains.length; i < len; i++) {
+            if (label === subdomains[i] + '') {
+                labels[0] = 's';
+                break;
+            }
+        }
+        urlObj.hostname = labels.join('.');
     }
+    return urlObj.href;
 }
 
-export function fetchTile(url: string, headers = {}, options) {
+/**
+ * stale-while-revalidate: the cached tile(even if expired) has returned, fetch it by If-None-Match/If-Modified-Since in background,
+ * update the cache when it has changed
+ */
+function revalidateTile(url: string, cacheKey: string, isImage: boolean, headers, options, params: fetchTileParamsType) {
+    const key = (isImage ? 'image:' : 'buffer:') + cacheKey;
+    if (RevalidateCache[key]) {
+        return;
+    }
+    RevalidateCache[key] = true;
+    const end = () => {
+        delete RevalidateCache[key];
+    };
+    getStoreTileRevalidation(cacheKey).then(({ validators, expired }) => {
+        //the tile without validators can only be refreshed by full fetch, do it when it is expired
+        if (!validators && !expired) {
+            end();
+            return;
+        }
+        const { fetchOptions, control } = generateFetchOptions(headers, options);
+        const requestHeaders = Object.assign({}, fetchOptions.headers);
+        if (validators && validators.etag) {
+            requestHeaders['If-None-Match'] = validators.etag;
+        }
+        if (validators && validators.lastModified) {
+            requestHeaders['If-Modified-Since'] = validators.lastModified;
+        }
+        fetchOptions.headers = requestHeaders;
+        const revalidate = () => {
+            transformRequest(url, fetchOptions, options, params, isImage ? 'image' : 'buffer').then(request => {
+                return fetch(request.url, request.fetchOptions);
+            }).then(res => {
+                if (res.status === 304) {
+                    return touchStoreTile(cacheKey);
+                }
+                if (!res.ok) {
+                    cancelResponse(res);
+                    return;
+                }
+                const newValidators = getResponseValidators(res);
+                return res.arrayBuffer().then(buffer => {
+                    if (!isImage) {
+                        tileBufferCache.remove(cacheKey);
+                        if (options.disableCache !== true) {
+                            tileBufferCache.add(cacheKey, buffer);
+                        }
+                        saveStoreTile(cacheKey, buffer, newValidators);
+                        return;
+                    }
+                    return createImageBitmap(new Blob([buffer])).then(image => {
+                        tileImageCache.remove(cacheKey);
+                        const saved = saveStoreTile(cacheKey, image, newValidators);
+                        if (options.disableCache !== true) {
+                            tileImageCache.add(cacheKey, image);
+                        } else {
+                            saved.then(() => {
+                                disposeImage(image);
+                            });
+                        }
+                    });
+                });
+            }).catch(() => {
+                //the cached tile has returned, the failed revalidation is ignored and retried at next request
+            }).then(() => {
+                finishFetch(control);
+                end();
+            });
+        };
+        addFetchQueue(control, revalidate, url, { priority: REVALIDATE_PRIORITY });
+    }).catch(() => {
+        end();
+    });
+}
+
+export function fetchTile(url: string, headers = {}, options, params?: fetchTileParamsType) {
     return new Promise((resolve: (image: ImageBitmap) => void, reject) => {
+        addTaskProgressTotal(options);
         const copyImageBitMap = (image: ImageBitmap) => {
-            createImageBitmap(image).then(imagebit => {
+            return createImageBitmap(image).then(imagebit => {
                 const tid = setTimeout(() => {
                     removeTimeOut(tid);
+                    addTaskProgressFetched(options);
                     resolve(imagebit);
                 }, 50);
             }).catch(error => {
@@ -155,63 +697,81 @@ export function fetchTile(url: string, headers = {}, options) {
             return;
         }
 
-        const image = tileImageCache.get(url);
+        const cacheKey = getCacheKey(url, options);
+        const image = tileImageCache.get(cacheKey);
         if (image) {
             copyImageBitMap(image);
             return;
         }
-        const { indexedDBCache } = options;
-        const { fetchOptions, control } = generateFetchOptions(headers, options, reject);
         const taskId = options.__taskId;
         if (!taskId) {
             reject(createInnerError('taskId is null'));
             return;
         }
-        cacheFetch(taskId, control);
+        const key = getInflightFetchKey('image', cacheKey, headers, options, params);
+        let item = InflightFetchCache[key];
+        if (item) {
+            addFetchSubscriber(item, options, copyImageBitMap, reject);
+            return;
+        }
+        item = createInflightFetch(key, headers, options);
+        addFetchSubscriber(item, options, copyImageBitMap, reject);
+        const { indexedDBCache } = options;
+        const { fetchOptions, control } = item;
         const fetchTileData = () => {
-            fetch(url, fetchOptions).then(res => {
-                if (!res.ok) {
-                    finishFetch(control);
-                    reject(createNetWorkError(url));
-                    return;
-                }
-                return res.arrayBuffer();
-            }).then(buffer => {
-                return new Blob([buffer]);
+            let validators: StoreTileValidators;
+            fetchArrayBuffer(url, params, fetchOptions, options, 'image').then(result => {
+                validators = result.validators;
+                return new Blob([result.buffer]);
             }).then(blob => createImageBitmap(blob)).then(image => {
+                const saved = indexedDBCache ? saveStoreTile(cacheKey, image, validators) : Promise.resolve();
+                const copied = finishInflightFetch(item, null, image);
                 if (options.disableCache !== true) {
-                    tileImageCache.add(url, image);
-                }
-                if (indexedDBCache) {
-                    saveStoreTile(url, image);
+                    tileImageCache.add(cacheKey, image);
+                } else {
+                    //the image is not in memory cache, dispose it when it has saved and copied
+                    Promise.all([saved, copied]).then(() => {
+                        disposeImage(image);
+                    });
                 }
-                finishFetch(control);
-                copyImageBitMap(image);
             }).catch(error => {
-                finishFetch(control);
-                reject(error);
+                finishInflightFetch(item, error);
             });
         }
         if (!indexedDBCache) {
-            addFetchQueue(control, fetchTileData);
+            addFetchQueue(control, fetchTileData, url, options);
             return;
         }
-        getStoreTile(url).then(image => {
-            if (image && indexedDBCache) {
-                copyImageBitMap(image as ImageBitmap);
+        getStoreTile(cacheKey, !!options.indexedDBCacheRevalidate).then(image => {
+            if (!isInflightFetch(item)) {
+                disposeImage(image as ImageBitmap);
+                return;
+            }
+            if (image) {
+                //the image of IndexedDB is not in memory cache
+                finishInflightFetch(item, null, image as ImageBitmap).then(() => {
+                    disposeImage(image as ImageBitmap);
+                });
+                if (options.indexedDBCacheRevalidate) {
+                    revalidateTile(url, cacheKey, true, headers, options, params);
+                }
             } else {
-                addFetchQueue(control, fetchTileData);
+                addFetchQueue(control, fetchTileData, url, options);
             }
         }).catch(() => {
-
+            if (isInflightFetch(item)) {
+                addFetchQueue(control, fetchTileData, url, options);
+            }
         });
 
     });
 }
 
-export function fetchTileBuffer(url: string, headers = {}, options) {
+export function fetchTileBuffer(url: string, headers = {}, options, params?: fetchTileParamsType) {
     return new Promise((resolve: (buffer: ArrayBuffer) => void, reject) => {
+        addTaskProgressTotal(options);
         const copyBuffer = (buffer: ArrayBuffer) => {
+            addTaskProgressFetched(options);
             resolve(buffer);
         };
         const taskId = options.__taskId;
@@ -219,50 +779,89 @@ export function fetchTileBuffer(url: string, headers = {}, options) {
             reject(createInnerError('taskId is null'));
             return;
         }
-        const buffer = tileBufferCache.get(url);
+        const cacheKey = getCacheKey(url, options);
+        const buffer = tileBufferCache.get(cacheKey);
         if (buffer) {
             copyBuffer(buffer);
             return;
         }
+        const key = getInflightFetchKey('buffer', cacheKey, headers, options, params);
+        let item = InflightFetchCache[key];
+        if (item) {
+            addFetchSubscriber(item, options, copyBuffer, reject);
+            return;
+        }
+        item = createInflightFetch(key, headers, options);
+        addFetchSubscriber(item, options, copyBuffer, reject);
         const { indexedDBCache } = options;
-        const { fetchOptions, control } = generateFetchOptions(headers, options, reject);
-        cacheFetch(taskId, control);
+        const { fetchOptions, control } = item;
         const fetchTileData = () => {
-            fetch(url, fetchOptions).then(res => {
-                if (!res.ok) {
-                    finishFetch(control);
-                    reject(createNetWorkError(url));
-                    return;
-                }
-                return res.arrayBuffer();
-            }).then(buffer => {
+            fetchArrayBuffer(url, params, fetchOptions, options, 'buffer').then(result => {
+                const { buffer, validators } = result;
                 if (options.disableCache !== true) {
-                    tileBufferCache.add(url, buffer);
+                    tileBufferCache.add(cacheKey, buffer);
                 }
-                finishFetch(control);
                 if (indexedDBCache) {
-                    saveStoreTile(url, buffer);
+                    saveStoreTile(cacheKey, buffer, validators);
                 }
-                copyBuffer(buffer);
+                finishInflightFetch(item, null, buffer);
             }).catch(error => {
-                finishFetch(control);
-                reject(error);
+                finishInflightFetch(item, error);
             });
         }
         if (!indexedDBCache) {
-            addFetchQueue(control, fetchTileData);
+            addFetchQueue(control, fetchTileData, url, options);
             return;
         }
 
-        getStoreTile(url).then(buffer => {
-            if (buffer && indexedDBCache) {
-                copyBuffer(buffer as ArrayBuffer);
+        getStoreTile(cacheKey, !!options.indexedDBCacheRevalidate).then(buffer => {
+            if (!isInflightFetch(item)) {
+                return;
+            }
+            if (buffer) {
+                finishInflightFetch(item, null, buffer as ArrayBuffer);
+                if (options.indexedDBCacheRevalidate) {
+                    revalidateTile(url, cacheKey, false, headers, options, params);
+                }
             } else {
-                addFetchQueue(control, fetchTileData);
+                addFetchQueue(control, fetchTileData, url, options);
             }
         }).catch(() => {
-
+            if (isInflightFetch(item)) {
+                addFetchQueue(control, fetchTileData, url, options);
+            }
         });
     });
 
 }
+
+/**
+ * fetch the tile into IndexedDB cache, resolve false if it has cached
+ */
+export function seedTile(url: string, headers = {}, options, params?: fetchTileParamsType) {
+    return new Promise((resolve: (fetched: boolean) => void, reject) => {
+        const cacheKey = getCacheKey(url, options);
+        hasStoreTile(cacheKey).then(cached => {
+            if (cached) {
+                resolve(false);
+                return;
+            }
+            const seedOptions = Object.assign({}, options, {
+                indexedDBCache: true,
+                indexedDBCacheRevalidate: false,
+                //not fill the memory cache
+                disableCache: true
+            });
+            const fetchData = options.seedType === 'buffer' ? fetchTileBuffer : fetchTile;
+            return fetchData(url, headers, seedOptions, params).then(data => {
+                //only need the cache, the image is useless
+                if (isImageBitmap(data)) {
+                    disposeImage(data as ImageBitmap);
+                }
+                resolve(true);
+            });
+        }).catch(error => {
+            reject(error);
+        });
+    });
+}
@@ -1,4 +1,4 @@
-import { encodeTerrainTileOptions, getTileOptions, getTileWithMaxZoomOptions, getVTTileOptions, layoutTilesOptions, resolveResultType } from './types';
+import { encodeTerrainTileOptions, getTileOptions, getTileWithMaxZoomOptions, getVTTileOptions, layoutTilesOptions, resolveResultType, tileWithMaxZoomResultType } from './types';
 import {
     colorsTerrainTile, createImageTypeResult, getCanvas, getCanvasContext, imageTileScale,
     layoutTiles, mergeTiles, postProcessingImage, resizeCanvas
@@ -7,7 +7,10 @@ import {
     checkArray, createParamsValidateError, createInnerError, HEADERS, disposeImage,
     createDataError, validateSubdomains, getTileUrl,
     copyArrayBuffer,
-    toTileItems
+    toTileItems,
+    getMirrorTileUrls,
+    getMirrorUrls,
+    isNotFoundError
 } from './util';
 import { cesiumTerrainToHeights, generateTiandituTerrain, transformQGisGray, transformArcgis, transformMapZen } from './terrain';
 import * as lerc from './lerc';
@@ -15,16 +18,18 @@ import { VectorTile } from '@mapbox/vector-tile';
 import Protobuf from 'pbf';
 import vtpbf from 'vt-pbf';
 import { fetchTile, fetchTileBuffer } from './tilefetch';
+import { setTaskProgressPhase } from './taskprogress';
 
 export function getTile(url, options: getTileOptions) {
     return new Promise((resolve, reject) => {
         const urls = checkArray(url);
         const headers = Object.assign({}, HEADERS, options.headers || {});
-        const fetchTiles = urls.map(tileUrl => {
-            return fetchTile(tileUrl, headers, options)
+        const fetchTiles = urls.map((tileUrl, index) => {
+            return fetchTile(tileUrl, headers, options, { mirrorUrls: getMirrorUrls(options.mirrors, index) });
         });
         const { globalCompositeOperation } = options;
         Promise.all(fetchTiles).then(imagebits => {
+            setTaskProgressPhase(options, 'compose');
             const canvas = getCanvas();
             const image = mergeTiles(imagebits, globalCompositeOperation);
             if (image instanceof Error) {
@@ -44,9 +49,96 @@ export function getTile(url, options: getTileOptions) {
     });
 }
 
+/**
+ * the parent tile of x/y/z at parentZoom, and the extent(scale) of x/y/z in the parent tile
+ */
+function getParentTile(x: number, y: number, z: number, parentZoom: number) {
+    let px = x, py = y;
+    let zoom = z;
+    // parent tile
+    while (zoom > parentZoom) {
+        px = Math.floor(px / 2);
+        py = Math.floor(py / 2);
+        zoom--;
+    }
+    const scale = Math.pow(2, z - parentZoom);
+    // child tiles
+    let startX = Math.floor(px * scale);
+    let endX = startX + scale;
+    let startY = Math.floor(py * scale);
+    let endY = startY + scale;
+    if (startX > x) {
+        startX--;
+        endX--;
+    }
+    if (startY > y) {
+        startY--;
+        endY--;
+    }
+    // console.log(startCol, endCol, startRow, endRow);
+    const dxScale = (x - startX) / (endX - startX);
+    const dyScale = (y - startY) / (endY - startY);
+    const wScale = 1 / (endX - startX);
+    const hScale = 1 / (endY - startY);
+    // console.log(dxScale, dyScale, wScale, hScale);
+    return {
+        x: px,
+        y: py,
+        z: parentZoom,
+        dxScale,
+        dyScale,
+        wScale,
+        hScale
+    };
+}
+
 export function getTileWithMaxZoom(options: getTileWithMaxZoomOptions) {
-    const { urlTemplate, x, y, z, maxAvailableZoom, subdomains, globalCompositeOperation } = options;
     return new Promise((resolve: resolveResultType, reject) => {
+        getTileWithMaxZoomResult(options).then(result => {
+            resolve(result.image);
+        }).catch(error => {
+            reject(error);
+        });
+    });
+}
+
+/**
+ * wait all the fetches end, if one of them fail, dispose the images of others
+ */
+function fetchAllTiles(fetchTiles: Array<Promise<ImageBitmap>>) {
+    return new Promise((resolve: (imagebits: Array<ImageBitmap>) => void, reject) => {
+        const imagebits: Array<ImageBitmap> = [];
+        let count = 0, fetchError: Error;
+        const end = () => {
+            count++;
+            if (count < fetchTiles.length) {
+                return;
+            }
+            if (fetchError) {
+                disposeImage(imagebits);
+                reject(fetchError);
+                return;
+            }
+            resolve(imagebits);
+        };
+        fetchTiles.forEach((fetchTile, index) => {
+            fetchTile.then(image => {
+                imagebits[index] = image;
+                end();
+            }).catch(error => {
+                fetchError = fetchError || error;
+                end();
+            });
+        });
+    });
+}
+
+/**
+ * the result with the zoom of tile actually used, it's less than z when cut from the parent tile
+ */
+export function getTileWithMaxZoomResult(options: getTileWithMaxZoomOptions) {
+    const { urlTemplate, x, y, z, maxAvailableZoom, subdomains, globalCompositeOperation, mirrors, fallbackToParent } = options;
+    return new Promise((resolve: (result: tileWithMaxZoomResultType) => void, reject) => {
         const urlTemplates = checkArray(urlTemplate);
         for (let i = 0, len = urlTemplates.length; i < len; i++) {
             const urlTemplate = urlTemplates[i];
@@ -55,53 +147,34 @@ export function getTileWithMaxZoom(options: getTileWithMaxZoomOptions) {
                 return;
             }
         }
-        let dxScale, dyScale, wScale, hScale;
-        let tileX = x, tileY = y, tileZ = z;
-        const zoomOffset = z - maxAvailableZoom;
-        if (zoomOffset > 0) {
-            let px = x, py = y;
-            let zoom = z;
-            // parent tile
-            while (zoom > maxAvailableZoom) {
-                px = Math.floor(px / 2);
-                py = Math.floor(py / 2);
-                zoom--;
-            }
-            const scale = Math.pow(2, zoomOffset);
-            // child tiles
-            let startX = Math.floor(px * scale);
-            let endX = startX + scale;
-            let startY = Math.floor(py * scale);
-            let endY = startY + scale;
-            if (startX > x) {
-                startX--;
-                endX--;
-            }
-            if (startY > y) {
-                startY--;
-                endY--;
-            }
-            // console.log(startCol, endCol, startRow, endRow);
-            dxScale = (x - startX) / (endX - startX);
-            dyScale = (y - startY) / (endY - startY);
-            wScale = 1 / (endX - startX);
-            hScale = 1 / (endY - startY);
-            // console.log(dxScale, dyScale, wScale, hScale);
-            tileX = px;
-            tileY = py;
-            tileZ = maxAvailableZoom;
-        }
-        const urls = urlTemplates.map(urlTemplate => {
-            return getTileUrl(urlTemplate, tileX, tileY, tileZ, subdomains);
-        });
         const headers = Object.assign({}, HEADERS, options.headers || {});
+        let tileZ = Math.min(z, maxAvailableZoom);
 
-        const fetchTiles = urls.map(url => {
-            return fetchTile(url, headers, options);
-        })
+        const loadTiles = () => {
+            const tile = getParentTile(x, y, z, tileZ);
+            const urls = urlTemplates.map(urlTemplate => {
+                return getTileUrl(urlTemplate, tile.x, tile.y, tile.z, options);
+            });
+            const fetchTiles = urls.map((url, index) => {
+                const mirrorUrls = getMirrorTileUrls(mirrors, index, tile.x, tile.y, tile.z, options);
+                return fetchTile(url, headers, options, { mirrorUrls, x: tile.x, y: tile.y, z: tile.z });
+            });
+            fetchAllTiles(fetchTiles).then(imagebits => {
+                sliceTile(imagebits, tile);
+            }).catch(error => {
+                //the tile not exist, walk up the pyramid
+                if (fallbackToParent && isNotFoundError(error) && tileZ > 0) {
+                    tileZ--;
+                    loadTiles();
+                    return;
+                }
+                reject(error);
+            });
+        };
 
-        Promise.all(fetchTiles).then(imagebits => {
+        const sliceTile = (imagebits: Array<ImageBitmap>, tile: ReturnType<typeof getParentTile>) => {
             // const canvas = getCanvas();
+            setTaskProgressPhase(options, 'compose');
             const image = mergeTiles(imagebits, globalCompositeOperation);
             if (image instanceof Error) {
                 reject(image);
@@ -112,27 +185,30 @@ export function getTileWithMaxZoom(options: getTileWithMaxZoomOptions) {
 
             const postImage = postProcessingImage(image, options);
             let sliceImage;
-            if (zoomOffset <= 0) {
+            if (tile.z >= z) {
                 sliceImage = postImage;
             } else {
+                const { dxScale, dyScale, wScale, hScale } = tile;
                 const { width, height } = postImage;
                 const dx = width * dxScale, dy = height * dyScale, w = width * wScale, h = height * hScale;
                 sliceImage = imageTileScale(postImage, dx, dy, w, h);
                 // opImage = imageOpacity(imageBitMap, options.opacity);
             }
             createImageTypeResult(getCanvas(), sliceImage, options).then(url => {
-                resolve(url);
+                resolve({
+                    image: url,
+                    zoom: tile.z
+                });
             }).catch(error => {
                 reject(error);
             })
-        }).catch(error => {
-            reject(error);
-        })
+        };
+        loadTiles();
     });
 
 }
 export function layout_Tiles(options: layoutTilesOptions) {
-    const { urlTemplate, tiles, subdomains, debug } = options;
+    const { urlTemplate, tiles, subdomains, debug, mirrors } = options;
     return new Promise((resolve, reject) => {
         if (!validateSubdomains(urlTemplate, subdomains)) {
             reject(createParamsValidateError('not find subdomains'));
@@ -142,18 +218,26 @@ export function layout_Tiles(options: layoutTilesOptions) {
 
         const urls = tileItemList.map(tile => {
             const { x, y, z } = tile;
-            return getTileUrl(urlTemplate, x, y, z, subdomains);
+            return getTileUrl(urlTemplate, x, y, z, options);
         });
         const headers = Object.assign({}, HEADERS, options.headers || {});
+        //the urlTemplate is only one, all the mirrors(even if it is grouped) are its mirrors
+        let mirrorTemplates: Array<string> = [];
+        (mirrors || []).forEach(item => {
+            mirrorTemplates = mirrorTemplates.concat(item);
+        });
 
-        const fetchTiles = urls.map(url => {
-            return fetchTile(url, headers, options);
+        const fetchTiles = urls.map((url, index) => {
+            const { x, y, z } = tileItemList[index];
+            const mirrorUrls = getMirrorTileUrls(mirrorTemplates, index, x, y, z, options);
+            return fetchTile(url, headers, options, { mirrorUrls, x, y, z });
         })
 
         Promise.all(fetchTiles).then(imagebits => {
             imagebits.forEach((image, index) => {
                 tileItemList[index].tileImage = image;
             });
+            setTaskProgressPhase(options, 'compose');
             const bigImage = layoutTiles(tileItemList, debug);
             const postImage = postProcessingImage(bigImage, options);
             createImageTypeResult(getCanvas(), postImage, options).then(url => {
@@ -185,8 +269,8 @@ export function encodeTerrainTile(url, options: encodeTerrainTileOptions) {
             isTianditu = terrainType === 'tianditu',
             isCesium = terrainType === 'cesium', isArcgis = terrainType === 'arcgis';
         if (isMapZen || isGQIS) {
-            const fetchTiles = urls.map(tileUrl => {
-                return fetchTile(tileUrl, headers, options)
+            const fetchTiles = urls.map((tileUrl, index) => {
+                return fetchTile(tileUrl, headers, options, { mirrorUrls: getMirrorUrls(options.mirrors, index) });
             });
             Promise.all(fetchTiles).then(imagebits => {
                 const canvas = getCanvas();
@@ -212,8 +296,8 @@ export function encodeTerrainTile(url, options: encodeTerrainTileOptions) {
                 reject(error);
             })
         } else if (isTianditu || isCesium || isArcgis) {
-            const fetchTiles = urls.map(tileUrl => {
-                return fetchTileBuffer(tileUrl, headers, options)
+            const fetchTiles = urls.map((tileUrl, index) => {
+                return fetchTileBuffer(tileUrl, headers, options, { mirrorUrls: getMirrorUrls(options.mirrors, index) });
             });
             Promise.all(fetchTiles).then(buffers => {
                 if (!buffers || buffers.length === 0) {
@@ -254,8 +338,8 @@ export function getVTTile(url, options: getVTTileOptions) {
     return new Promise((resolve, reject) => {
         const urls = checkArray(url);
         const headers = Object.assign({}, HEADERS, options.headers || {});
-        const fetchTiles = urls.map(tileUrl => {
-            return fetchTileBuffer(tileUrl, headers, options)
+        const fetchTiles = urls.map((tileUrl, index) => {
+            return fetchTileBuffer(tileUrl, headers, options, { mirrorUrls: getMirrorUrls(options.mirrors, index) });
         });
         Promise.all(fetchTiles).then(buffers => {
             buffers = buffers.filter(buffer => {
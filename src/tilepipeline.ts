@@ -0,0 +1,98 @@
+import { colorsTerrainTile, createImageTypeResult, getCanvas, postProcessingImage } from './canvas';
+import { clip, getMaskBBOX } from './tileclip';
+import { getTile, getTileWithMaxZoom } from './tileget';
+import { tileRectify } from './tilerectify';
+import { tileTransform } from './tiletransform';
+import { clipTileOptions, pipelineOptions, pipelineStepType } from './types';
+import { CancelTaskLRUCache, createParamsValidateError, disposeImage, FetchCancelError, isImageBitmap } from './util';
+
+function loadSourceImage(options: pipelineOptions, sourceOptions) {
+    const { source, steps } = options;
+    const first = steps[0];
+    //the tiles of transform/rectify are fetched by the step self
+    if (first && first.type === 'transform') {
+        return tileTransform(Object.assign(sourceOptions, first.options));
+    }
+    if (first && first.type === 'rectify') {
+        return tileRectify(Object.assign(sourceOptions, first.options));
+    }
+    if (isImageBitmap(source.image)) {
+        return Promise.resolve(source.image);
+    }
+    if (source.urlTemplate) {
+        return getTileWithMaxZoom(sourceOptions);
+    }
+    return getTile(source.url, sourceOptions);
+}
+
+function runStep(image: ImageBitmap, step: pipelineStepType, sourceOptions) {
+    const options = step.options || {};
+    const { type } = step;
+    if (type === 'clip') {
+        if (!getMaskBBOX(options.maskId)) {
+            return Promise.reject(createParamsValidateError('not find mask by maskId:' + options.maskId));
+        }
+        return clip(Object.assign({
+            tileSize: sourceOptions.tileSize,
+            projection: sourceOptions.projection
+        }, options, {
+            tile: image,
+            forceReturnImage: true
+        }) as clipTileOptions);
+    }
+    if (type === 'postProcessing') {
+        return Promise.resolve(postProcessingImage(image, options));
+    }
+    if (type === 'colorTerrain') {
+        return Promise.resolve(colorsTerrainTile(options.colors, image));
+    }
+    if (type === 'encode') {
+        return createImageTypeResult(getCanvas(), image, options);
+    }
+    return Promise.reject(createParamsValidateError('not support pipeline step:' + type));
+}
+
+/**
+ * fetch(or transform/rectify) the source tile, then run the steps one by one in this worker
+ */
+export function runPipeline(options) {
+    return new Promise((resolve, reject) => {
+        const { steps, __taskId, __progress } = options;
+        const sourceOptions = Object.assign({}, options.source, {
+            __taskId,
+            __progress,
+            forceReturnImage: true
+        });
+        let index = 0;
+        const first = steps[0];
+        if (first && (first.type === 'transform' || first.type === 'rectify')) {
+            index = 1;
+        }
+        const next = (image: ImageBitmap) => {
+            if (CancelTaskLRUCache.has(__taskId)) {
+                disposeImage(image);
+                reject(FetchCancelError);
+                return;
+            }
+            if (index >= steps.length) {
+                resolve(image);
+                return;
+            }
+            const step = steps[index];
+            index++;
+            runStep(image, step, sourceOptions).then(result => {
+                //the step has created new image
+                if (result !== image) {
+                    disposeImage(image);
+                }
+                next(result as ImageBitmap);
+            }).catch(error => {
+                disposeImage(image);
+                reject(error);
+            });
+        };
+        loadSourceImage(options, sourceOptions).then(next).catch(error => {
+            reject(error);
+        });
+    });
+}
@@ -0,0 +1,101 @@
+import { getMaskBBOX, tileBBOXIntersectMask } from './tileclip';
+import { seedTile } from './tilefetch';
+import { seedTilesChunkResultType, seedTilesOptions } from './types';
+import {
+    checkArray, createParamsValidateError, FetchCancelError, getMirrorTileUrls, getSeedMaxTiles, getTileRange, getTileRangeCount,
+    getTileUrl, HEADERS, tileBBOXs, validateSubdomains
+} from './util';
+
+/**
+ * the tiles in the bbox or mask from minZoom to maxZoom
+ */
+export function getSeedTiles(options: seedTilesOptions) {
+    return new Promise((resolve: (tiles: Array<[number, number, number]>) => void, reject) => {
+        const { maskId, minZoom, maxZoom } = options;
+        const projection = options.projection || 'EPSG:3857';
+        let bbox = options.bbox;
+        if (maskId) {
+            bbox = getMaskBBOX(maskId);
+            if (!bbox) {
+                reject(createParamsValidateError('not find mask ,the maskId:' + maskId));
+                return;
+            }
+        }
+        //check the count before list them, avoid out of memory
+        const maxTiles = getSeedMaxTiles(options);
+        const count = getTileRangeCount(bbox, minZoom, maxZoom, projection);
+        if (count > maxTiles) {
+            reject(createParamsValidateError(`the tiles count(${count}) is more than maxTiles(${maxTiles})`));
+            return;
+        }
+        const tiles: Array<[number, number, number]> = [];
+        for (let z = minZoom; z <= maxZoom; z++) {
+            const [startX, startY, endX, endY] = getTileRange(bbox, z, projection);
+            for (let y = startY; y <= endY; y++) {
+                for (let x = startX; x <= endX; x++) {
+                    tiles.push([x, y, z]);
+                }
+            }
+        }
+        if (!maskId) {
+            resolve(tiles);
+            return;
+        }
+        Promise.all(tiles.map(([x, y, z]) => {
+            return tileBBOXIntersectMask(tileBBOXs(x, y, z, projection).bbox4326, maskId);
+        })).then((results: Array<{ intersect: boolean }>) => {
+            resolve(tiles.filter((tile, index) => {
+                return results[index].intersect;
+            }));
+        }).catch(error => {
+            reject(error);
+        });
+    });
+}
+
+/**
+ * fetch the tiles into IndexedDB cache, the cached tiles will be skipped
+ */
+export function seedTiles(options: seedTilesOptions) {
+    return new Promise((resolve: (result: seedTilesChunkResultType) => void, reject) => {
+        const { urlTemplate, subdomains, mirrors } = options;
+        const tiles = options.tiles || [];
+        const urlTemplates = checkArray(urlTemplate);
+        for (let i = 0, len = urlTemplates.length; i < len; i++) {
+            if (!validateSubdomains(urlTemplates[i], subdomains)) {
+                reject(createParamsValidateError('not find subdomains'));
+                return;
+            }
+        }
+        const headers = Object.assign({}, HEADERS, options.headers || {});
+        const result: seedTilesChunkResultType = {
+            loaded: 0,
+            skipped: 0,
+            failedTiles: []
+        };
+        Promise.all(tiles.map(tile => {
+            const [x, y, z] = tile;
+            return Promise.all(urlTemplates.map((urlTemplate, index) => {
+                const url = getTileUrl(urlTemplate, x, y, z, options);
+                const mirrorUrls = getMirrorTileUrls(mirrors, index, x, y, z, options);
+                return seedTile(url, headers, options, { mirrorUrls, x, y, z });
+            })).then(fetchedList => {
+                if (fetchedList.indexOf(true) > -1) {
+                    result.loaded++;
+                } else {
+                    result.skipped++;
+                }
+            }).catch(error => {
+                //the task has canceled
+                if (error === FetchCancelError) {
+                    throw error;
+                }
+                result.failedTiles.push(tile);
+            });
+        })).then(() => {
+            resolve(result);
+        }).catch(error => {
+            reject(error);
+        });
+    });
+}
@@ -0,0 +1,150 @@
+import { getMBTilesTile, MBTilesArchive, openMBTiles } from './mbtiles';
+import { getPMTilesTile, openPMTiles, PMTilesArchive, PMTilesReader } from './pmtiles';
+import { tileSourceType } from './types';
+import { createDataError, createNetWorkError, createParamsValidateError } from './util';
+
+type TileSource = {
+    type: tileSourceType;
+    archive: PMTilesArchive | MBTilesArchive;
+}
+
+//the injected tile sources(ArrayBuffer)
+const TileSourceCache: Record<string, TileSource> = {};
+//the pmtiles archives on http server
+const PMTilesArchiveCache: Record<string, Promise<PMTilesArchive>> = {};
+
+const PMTILES_PROTOCOL = 'pmtiles://';
+const MBTILES_PROTOCOL = 'mbtiles://';
+const TILE_SOURCE_URL_REG = /^(.+)\/(\d+)\/(\d+)\/(\d+)(\.\w+)?(\?.*)?$/;
+
+function bufferReader(data: ArrayBuffer): PMTilesReader {
+    return (offset: number, length: number) => {
+        return Promise.resolve(data.slice(offset, offset + length));
+    };
+}
+
+function httpRangeReader(url: string): PMTilesReader {
+    return (offset: number, length: number, fetchOptions?: Record<string, any>) => {
+        fetchOptions = fetchOptions || {};
+        const headers = Object.assign({}, fetchOptions.headers, {
+            Range: `bytes=${offset}-${offset + length - 1}`
+        });
+        return fetch(url, Object.assign({}, fetchOptions, { headers })).then(res => {
+            if (!res.ok) {
+                throw createNetWorkError(url, res.status);
+            }
+            return res.arrayBuffer().then(buffer => {
+                if (res.status !== 206) {
+                    //the server not support range request, it will download the whole file every read
+                    if (buffer.byteLength > offset + length) {
+                        throw createDataError('the server not support range request:' + url);
+                    }
+                    //the whole file is in the range
+                    return buffer.slice(offset, offset + length);
+                }
+                return buffer;
+            });
+        });
+    };
+}
+
+function openTileSource(type: tileSourceType, data: ArrayBuffer) {
+    if (type === 'pmtiles') {
+        return openPMTiles(bufferReader(data));
+    }
+    if (type === 'mbtiles') {
+        const archive = openMBTiles(data);
+        return archive instanceof Error ? Promise.reject(archive) : Promise.resolve(archive);
+    }
+    return Promise.reject(createParamsValidateError('not support tile source type:' + type));
+}
+
+export function injectTileSource(id: string, type: tileSourceType, data: ArrayBuffer) {
+    return new Promise((resolve, reject) => {
+        openTileSource(type, data).then(archive => {
+            TileSourceCache[id] = {
+                type,
+                archive
+            };
+            resolve(null);
+        }).catch(error => {
+            reject(error);
+        });
+    });
+}
+
+export function removeTileSource(id: string) {
+    delete TileSourceCache[id];
+}
+
+function getTileSourceProtocol(url: string) {
+    if (!url) {
+        return null;
+    }
+    if (url.indexOf(PMTILES_PROTOCOL) === 0) {
+        return PMTILES_PROTOCOL;
+    }
+    if (url.indexOf(MBTILES_PROTOCOL) === 0) {
+        return MBTILES_PROTOCOL;
+    }
+    return null;
+}
+
+export function isTileSourceUrl(url: string) {
+    return !!getTileSourceProtocol(url);
+}
+
+function getHttpPMTilesArchive(url: string, fetchOptions: Record<string, any>) {
+    if (!PMTilesArchiveCache[url]) {
+        //the archive is shared by all tasks, not abort it by the task
+        const options = Object.assign({}, fetchOptions);
+        delete options.signal;
+        PMTilesArchiveCache[url] = openPMTiles(httpRangeReader(url), options).catch(error => {
+            delete PMTilesArchiveCache[url];
+            throw error;
+        });
+    }
+    return PMTilesArchiveCache[url];
+}
+
+/**
+ * the tile data of the tile source url:
+ * pmtiles://{injected tile source id}/{z}/{x}/{y}
+ * pmtiles://https://xxx.com/xxx.pmtiles/{z}/{x}/{y}
+ * mbtiles://{injected tile source id}/{z}/{x}/{y}
+ */
+export function fetchTileSourceData(url: string, fetchOptions: Record<string, any>) {
+    return new Promise((resolve: (buffer: ArrayBuffer) => void, reject) => {
+        const protocol = getTileSourceProtocol(url);
+        const result = url.substring(protocol.length).match(TILE_SOURCE_URL_REG);
+        if (!result) {
+            reject(createParamsValidateError('tile source url is error:' + url));
+            return;
+        }
+        const source = result[1];
+        const z = parseInt(result[2]), x = parseInt(result[3]), y = parseInt(result[4]);
+        const tileSource = TileSourceCache[source];
+        let tileData: Promise<ArrayBuffer | null>;
+        if (protocol === MBTILES_PROTOCOL) {
+            if (!tileSource || tileSource.type !== 'mbtiles') {
+                reject(createParamsValidateError('not find mbtiles tile source:' + source));
+                return;
+            }
+            tileData = getMBTilesTile(tileSource.archive as MBTilesArchive, z, x, y);
+        } else {
+            const archive = tileSource && tileSource.type === 'pmtiles' ? Promise.resolve(tileSource.archive as PMTilesArchive) : getHttpPMTilesArchive(source, fetchOptions);
+            tileData = archive.then(archive => {
+                return getPMTilesTile(archive, z, x, y, fetchOptions);
+            });
+        }
+        tileData.then(buffer => {
+            if (!buffer) {
+                reject(createNetWorkError(url, 404));
+                return;
+            }
+            resolve(buffer);
+        }).catch(error => {
+            reject(error);
+        });
+    });
+}
@@ -2,8 +2,9 @@ import { getTileWithMaxZoom } from "./tileget";
 //@ts-ignore
 import { SphericalMercator } from '@mapbox/sphericalmercator';
 // import tileCover from '@mapbox/tile-cover';
-import { disposeImage, FetchCancelError, lnglat2Mercator, toTileItems, CancelTaskLRUCache, removeTimeOut, isFetchDefaultError } from "./util";
+import { disposeImage, FetchCancelError, lnglat2Mercator, toTileItems, CancelTaskLRUCache, removeTimeOut, isFetchDefaultError, CONFIG } from "./util";
 import { createImageTypeResult, getBlankTile, getCanvas, getCanvasContext, layoutTiles, postProcessingImage, resizeCanvas } from "./canvas";
+import { setTaskProgressPhase } from "./taskprogress";
 import { bboxOfBBOXList, BBOXtype, pointsToBBOX, bboxToPoints } from "./bbox";
 import gcoord from 'gcoord';
 
@@ -22,6 +23,7 @@ type tileCalResult = {
 }
 
 const FirstRes = 1.40625, mFirstRes = 156543.03392804097;
+//the tile size of resolution, not the size of result tile
 const TILESIZE = 256;
 const ORIGIN = [-180, 90];
 const MORIGIN = [-20037508.342787, 20037508.342787];
@@ -319,11 +321,12 @@ function tilesImageData(image: ImageBitmap, tilesbbox: BBOXtype, tilebbox: BBOXt
 }
 
 function transformTiles(pixelsresult, mbbox, pureColor, debug) {
+    const resultTileSize = CONFIG.transformTileSize;
     const canvas = getCanvas();
     if (pureColor) {
-        resizeCanvas(canvas, TILESIZE, TILESIZE);
+        resizeCanvas(canvas, resultTileSize, resultTileSize);
         const ctx1 = getCanvasContext(canvas);
-        const imageData = ctx1.createImageData(TILESIZE, TILESIZE);
+        const imageData = ctx1.createImageData(resultTileSize, resultTileSize);
         const [r, g, b, a] = pureColor;
         for (let i = 0, len = imageData.data.length; i < len; i += 4) {
             imageData.data[i] = r;
@@ -335,7 +338,7 @@ function transformTiles(pixelsresult, mbbox, pureColor, debug) {
         return canvas.transferToImageBitmap();
     }
     const [xmin, ymin, xmax, ymax] = mbbox;
-    const ax = (xmax - xmin) / TILESIZE, ay = (ymax - ymin) / TILESIZE;
+    const ax = (xmax - xmin) / resultTileSize, ay = (ymax - ymin) / resultTileSize;
     const { pixels, bbox } = pixelsresult;
     const [minx, miny, maxx, maxy] = bbox;
     let width = (maxx - minx) / ax, height = (maxy - miny) / ay;
@@ -384,14 +387,14 @@ function transformTiles(pixelsresult, mbbox, pureColor, debug) {
     const px = Math.round((xmin - minx) / ax);
     const py = Math.round((maxy - ymax) / ay);
     const canvas1 = getCanvas();
-    resizeCanvas(canvas1, TILESIZE, TILESIZE);
+    resizeCanvas(canvas1, resultTileSize, resultTileSize);
     const ctx1 = getCanvasContext(canvas1);
-    ctx1.drawImage(image, px - 1, py, TILESIZE, TILESIZE, 0, 0, TILESIZE, TILESIZE);
+    ctx1.drawImage(image, px - 1, py, resultTileSize, resultTileSize, 0, 0, resultTileSize, resultTileSize);
     checkBoundaryBlank(ctx1);
     if (debug) {
         ctx1.lineWidth = 0.4;
         ctx1.strokeStyle = 'red';
-        ctx1.rect(0, 0, TILESIZE, TILESIZE);
+        ctx1.rect(0, 0, resultTileSize, resultTileSize);
         ctx1.stroke();
     }
     disposeImage(image);
@@ -569,6 +572,7 @@ export function tileTransform(options) {
                     reject(FetchCancelError);
                     return;
                 }
+                setTaskProgressPhase(options, 'compose');
                 const image = layoutTiles(tileItems, debug);
                 let image1;
                 const postProcessingImageHandler = (img: ImageBitmap) => {
@@ -600,7 +604,7 @@ export function tileTransform(options) {
 
         tileItems.forEach(tile => {
             const { x, y, z } = tile;
-            getTileWithMaxZoom(Object.assign({}, options, { x, y, z, forceReturnImage: true, ignorePostProcessing: true })).then(image => {
+            getTileWithMaxZoom(Object.assign({}, options, { x, y, z, forceReturnImage: true, ignorePostProcessing: true, __progressPhase: false })).then(image => {
                 tile.tileImage = image as ImageBitmap;
                 result.loadCount++;
                 if (isEnd()) {
@@ -9,27 +9,221 @@ declare global {
     interface Promise<T> {
         cancel?: () => void;
         canceled?: boolean;
+        setPriority?: (priority: number) => void;
+        //cancel the item of batch
+        cancelItem?: (index: number) => void;
     }
 }
 
+export type postProcessingStepType = {
+    //builtin filter(filter,gaussianBlur,opacity,oldPhoto,invertColor,mosaic) or the name of registerFilter
+    type: string;
+    params?: postProcessingStepParamsType;
+}
+
+export type levelsOptionsType = {
+    //the input range, default is 0-255
+    inBlack?: number;
+    inWhite?: number;
+    //the gamma of middle tone, default is 1
+    gamma?: number;
+    //the output range, default is 0-255
+    outBlack?: number;
+    outWhite?: number;
+}
+
+export type curvesOptionsType = {
+    //the control points [[input, output]] of rgb, 0-255
+    points?: Array<[number, number]>;
+    //the control points of every channel
+    r?: Array<[number, number]>;
+    g?: Array<[number, number]>;
+    b?: Array<[number, number]>;
+}
+
+//css color or [r, g, b, a?], a is 0-255
+export type colorType = string | [number, number, number] | [number, number, number, number];
+
+export type colorToTransparentOptionsType = {
+    //the key colors, such as ['#fff', '#000']
+    colors: Array<colorType>;
+    //the rgb distance(0-441) to the key color, default is 0
+    tolerance?: number;
+    //the rgb distance of edge fade out, default is 0
+    feather?: number;
+}
+
+export type colorReplaceOptionsType = {
+    //[[from, to]]
+    colors: Array<[colorType, colorType]>;
+    //the rgb distance(0-441) to the from color, default is 0
+    tolerance?: number;
+}
+
+export type darkModeSpaceType = 'oklab' | 'hsl';
+
+export type darkModeOptionsType = {
+    //the color space to invert the lightness, default is oklab(perceptual)
+    space?: darkModeSpaceType;
+    //the contrast of lightness, 1 is the original, <1 the colors are closer to gray
+    contrast?: number;
+    //the tint color, such as '#1e3a5f'
+    tint?: colorType;
+    //0-1, default is 0.2
+    tintAmount?: number;
+}
+
+export type convolutionEdgeType = 'clamp' | 'mirror' | 'wrap' | 'transparent';
+
+export type edgeOptionsType = {
+    //how to sample the pixels out of tile, default is clamp(use the edge pixel), no seam between tiles
+    edge?: convolutionEdgeType;
+}
+
+export type convolutionOptionsType = {
+    //3x3 or 5x5 kernel
+    kernel: Array<number>;
+    //default is the sum of kernel(1 when the sum is 0)
+    divisor?: number;
+    offset?: number;
+} & edgeOptionsType;
+
+export type sharpenOptionsType = {
+    //default is 1
+    amount?: number;
+} & edgeOptionsType;
+
+export type unsharpMaskOptionsType = {
+    //the blur radius, 1(3x3) or 2(5x5), default is 1
+    radius?: number;
+    //default is 1
+    amount?: number;
+    //the min difference to sharpen, default is 0
+    threshold?: number;
+} & edgeOptionsType;
+
+//the params of builtin filter, the registered filter can be any object
+export type postProcessingStepParamsType = { filter?: string } | { radius?: number } | { opacity?: number } |
+    { size?: number } | { value?: number } | { angle?: number } |
+    levelsOptionsType | curvesOptionsType | colorToTransparentOptionsType | colorReplaceOptionsType |
+    darkModeOptionsType | convolutionOptionsType | sharpenOptionsType | unsharpMaskOptionsType | edgeOptionsType |
+    Record<string, any>;
+
 export type postProcessingOptionsType = {
+    colorToTransparent?: colorToTransparentOptionsType;
+    colorReplace?: colorReplaceOptionsType;
     filter?: string;
+    brightness?: number;
+    contrast?: number;
+    saturation?: number;
+    hueRotate?: number;
+    gamma?: number;
+    levels?: levelsOptionsType;
+    curves?: curvesOptionsType;
+    convolution?: convolutionOptionsType;
+    sharpen?: boolean | sharpenOptionsType;
+    unsharpMask?: boolean | unsharpMaskOptionsType;
+    emboss?: boolean | edgeOptionsType;
+    sobel?: boolean | edgeOptionsType;
+    darkMode?: boolean | darkModeOptionsType;
     opacity?: number;
     gaussianBlurRadius?: number;
     mosaicSize?: number;
     oldPhoto?: boolean;
     invertColor?: boolean;
+    //run in order, after the above options
+    postProcessing?: Array<postProcessingStepType>;
     ignorePostProcessing?: boolean;
 }
 
+export type fetchRetryOptionsType = {
+    maxAttempts?: number;
+    delay?: number;
+    factor?: number;
+    maxDelay?: number;
+    statusCodes?: Array<number>;
+}
+
+export type cacheKeyOptionsType = {
+    ignoreParams?: Array<string>;
+    ignoreSubdomains?: boolean | Array<string>;
+}
+
+export type requestResourceType = 'image' | 'buffer' | 'injectImage';
+
+export type requestTransformResultType = {
+    url?: string;
+    headers?: Record<string, string>;
+}
+
+export type fetchTileParamsType = {
+    mirrorUrls?: Array<string>;
+    x?: number;
+    y?: number;
+    z?: number;
+}
+
+export type taskOptionsType = {
+    //the group tag of task, cancel the tasks by TileActor.cancelGroup
+    group?: string;
+}
+
 export type fetchOptionsType = {
     referrer?: string;
     headers?: Record<string, string>;
     fetchOptions?: Record<string, any>;
     timeout?: number;
     indexedDBCache?: boolean;
+    indexedDBCacheRevalidate?: boolean;
+    priority?: number;
+    retry?: fetchRetryOptionsType;
+    cacheKey?: cacheKeyOptionsType;
+    //the name of registered request transformer
+    requestTransformer?: string;
+} & taskOptionsType;
+
+export type indexedDBCacheOptionsType = {
+    //ms, 0 is never expire
+    maxAge?: number;
+    //bytes, 0 is unlimited
+    maxSize?: number;
+}
+
+export type tileCacheOptionsType = {
+    //the max bytes of memory cache in every worker, 0 is unlimited
+    tileImageCacheMaxSize?: number;
+    tileBufferCacheMaxSize?: number;
+}
+
+export type tileActorConfigType = {
+    //the default max concurrent fetch count of every host
+    fetchMaxCount?: number;
+    //the max count of memory cache in every worker
+    tileCacheCount?: number;
+    //merge into the default headers of fetch, null will remove the default header
+    headers?: Record<string, string | null>;
+    //the tile size of sliceImage
+    imageSliceSize?: number;
+    //the tile size of transformTile result
+    transformTileSize?: number;
+}
+
+export type tileCacheStatsType = {
+    count: number;
+    size: number;
+    maxSize: number;
 }
 
+export type tileCacheUsageType = {
+    tileImageCache: tileCacheStatsType;
+    tileBufferCache: tileCacheStatsType;
+}
+
+export type indexedDBCacheStatsType = {
+    count: number;
+    size: number;
+} & indexedDBCacheOptionsType;
+
 export type returnResultType = {
     returnBlobURL?: boolean;
     returnUint32Buffer?: boolean;
@@ -38,18 +232,49 @@ export type returnResultType = {
     quality?: number;
 }
 
+export type taskProgressPhaseType = 'fetch' | 'compose' | 'post-process' | 'encode';
+
+export type taskProgressType = {
+    taskId: number;
+    phase: taskProgressPhaseType;
+    //the count of tiles fetched(include from cache)
+    fetched: number;
+    total: number;
+    //the bytes downloaded from network
+    bytes: number;
+    //the tiles count of seedTiles, fetched is loaded + skipped + failed
+    loaded?: number;
+    skipped?: number;
+    failed?: number;
+}
+
+export type taskProgressOptionsType = {
+    onProgress?: (progress: taskProgressType) => void;
+}
+
 export type getTileOptions = {
     url: string | ImageBitmap | Array<string | ImageBitmap>;
     globalCompositeOperation?: GlobalCompositeOperation;
-} & postProcessingOptionsType & fetchOptionsType & returnResultType;
+    //the mirror urls, if url is array, it can be the mirror urls of every url
+    mirrors?: Array<string | Array<string>>;
+} & postProcessingOptionsType & fetchOptionsType & returnResultType & taskProgressOptionsType;
 
 
+export type tileUrlOptionsType = {
+    subdomains?: Array<string>;
+    //default is hash, the subdomain index is (x+y)%subdomains.length
+    subdomainStrategy?: 'hash' | 'random';
+    //the projection of tile, for {bbox-epsg-3857}/{bbox-epsg-4326}, default is EPSG:3857
+    projection?: string;
+    tileSize?: number;
+}
+
 export type layoutTilesOptions = {
     urlTemplate: string;
     tiles: Array<[number, number, number]>;
-    subdomains?: Array<string>;
+    mirrors?: Array<string | Array<string>>;
     debug?: boolean;
-} & postProcessingOptionsType & fetchOptionsType & returnResultType;
+} & tileUrlOptionsType & postProcessingOptionsType & fetchOptionsType & returnResultType & taskProgressOptionsType;
 
 export type encodeTerrainTileOptions = {
     url: string;
@@ -59,6 +284,7 @@ export type encodeTerrainTileOptions = {
     terrainWidth?: number;
     tileSize?: number;
     terrainColors?: Array<[number, string]>
+    mirrors?: Array<string>;
 } & fetchOptionsType & returnResultType;
 
 export type getTileWithMaxZoomOptions = Omit<getTileOptions, 'url'> & {
@@ -67,7 +293,13 @@ export type getTileWithMaxZoomOptions = Omit<getTileOptions, 'url'> & {
     x: number;
     y: number;
     z: number;
-    subdomains?: Array<string>;
+    mirrors?: Array<string | Array<string>>;
+    fallbackToParent?: boolean;
+} & tileUrlOptionsType
+
+export type tileWithMaxZoomResultType = {
+    image: ImageBitmap | string | ArrayBuffer;
+    zoom: number;
 }
 
 export type clipTileOptions = {
@@ -78,12 +310,12 @@ export type clipTileOptions = {
     tileSize?: number;
     reverse?: boolean;
     bufferSize?: number;
-} & returnResultType;
+} & returnResultType & taskOptionsType;
 
 export type tileIntersectMaskOptions = {
     tileBBOX: BBOXtype;
     maskId: string;
-};
+} & taskOptionsType;
 
 export type transformTileOptions = getTileWithMaxZoomOptions & {
     projection: 'EPSG:4326' | 'EPSG:3857';
@@ -110,6 +342,7 @@ export type colorTerrainTileOptions = {
 export type privateOptions = getTileOptions & {
     __taskId?: number;
     __workerId?: number;
+    __progress?: boolean;
 }
 
 export type GeoJSONPolygon = {
@@ -139,6 +372,14 @@ export type injectImageOptions = {
 } & fetchOptionsType;
 
 
+export type tileSourceType = 'pmtiles' | 'mbtiles';
+
+export type injectTileSourceOptions = {
+    id: string;
+    type: tileSourceType;
+    data: ArrayBuffer;
+}
+
 export type getImageTileOptions = {
     tileBBOX: BBOXtype,
     imageId: string;
@@ -181,9 +422,79 @@ export type sliceImageResultType = {
 
 export type getVTTileOptions = {
     url: string | Array<string>
+    //the mirror urls, if url is array, it can be the mirror urls of every url
+    mirrors?: Array<string | Array<string>>;
 } & fetchOptionsType;
 
 
+export type seedTilesCountType = {
+    total: number;
+    loaded: number;
+    skipped: number;
+    failed: number;
+}
+
+export type seedTilesResultType = seedTilesCountType & {
+    failedTiles: Array<[number, number, number]>;
+}
+
+export type seedTilesChunkResultType = {
+    loaded: number;
+    skipped: number;
+    failedTiles: Array<[number, number, number]>;
+}
+
+export type seedTilesOptions = {
+    urlTemplate: string | Array<string>;
+    //lnglat bbox
+    bbox?: BBOXtype;
+    maskId?: string;
+    minZoom: number;
+    maxZoom: number;
+    mirrors?: Array<string | Array<string>>;
+    //fetch tile as image(getTile etc.) or buffer(getVTTile etc.)
+    seedType?: 'image' | 'buffer';
+    //the max tiles count, reject if the tiles is more than it, default is 100000
+    maxTiles?: number;
+    tiles?: Array<[number, number, number]>;
+} & fetchOptionsType & tileUrlOptionsType & taskProgressOptionsType;
+
+export type batchOperationTypes = 'getTile' | 'getTileWithMaxZoom' | 'layoutTiles' | 'clipTile' | 'transformTile' | 'rectifyTile';
+
+export type batchOperationType = {
+    type: batchOperationTypes;
+    options: Record<string, any>;
+}
+
+export type batchItemResultType = {
+    //the index of operation
+    index: number;
+    result?: ImageBitmap | string | ArrayBuffer | tileWithMaxZoomResultType;
+    error?: Error;
+}
+
+export type batchOptionsType = {
+    //stream the result of every item when it finished
+    onResult?: (item: batchItemResultType) => void;
+} & taskOptionsType;
+
+export type pipelineStepTypes = 'transform' | 'rectify' | 'clip' | 'postProcessing' | 'colorTerrain' | 'encode';
+
+export type pipelineStepType = {
+    type: pipelineStepTypes;
+    options?: Record<string, any>;
+}
+
+export type pipelineSourceType = {
+    url?: string | ImageBitmap | Array<string | ImageBitmap>;
+    image?: ImageBitmap;
+} & Partial<getTileWithMaxZoomOptions>;
+
+export type pipelineOptions = {
+    source: pipelineSourceType;
+    steps: Array<pipelineStepType>;
+} & taskProgressOptionsType;
+
 export type TileItem = {
     x: number;
     y: number;
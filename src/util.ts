@@ -1,8 +1,10 @@
 import LRUCache from './LRUCache';
-import { GeoJSONMultiPolygon, GeoJSONPolygon, postProcessingOptionsType, returnResultType, TileItem } from './types';
+import { BBOXtype } from './bbox';
+import { GeoJSONMultiPolygon, GeoJSONPolygon, postProcessingOptionsType, returnResultType, tileActorConfigType, TileItem, tileUrlOptionsType } from './types';
 
 class CustomError extends Error {
     public code: number;
+    public status?: number;
 
     constructor(message: string, code: number) {
         super(message);
@@ -14,12 +16,12 @@ export const CancelTaskLRUCache = new LRUCache<number>(1000, () => {
 
 })
 
-export function removeTimeOut(id: number) {
+export function removeTimeOut(id: ReturnType<typeof setTimeout>) {
     clearTimeout(id);
 }
 
 
-export const HEADERS = {
+export const HEADERS: Record<string, string> = {
     'accept': 'image/webp,image/apng,image/svg+xml,image/*,*/*;q=0.8',
     'User-Agent': 'Mozilla/5.0 (Windows NT 10.0; Win64; x64) AppleWebKit/537.36 (KHTML, like Gecko) Chrome/107.0.0.0 Safari/537.36 Edg/107.0.1418.26'
 };
@@ -28,6 +30,49 @@ export function isNumber(value) {
     return typeof value === 'number';
 }
 
+/**
+ * the worker runtime config, change it by TileActor.setConfig
+ */
+export const CONFIG = {
+    //the default max concurrent fetch count of every host
+    fetchMaxCount: 4,
+    //the max count of tile memory cache
+    tileCacheCount: 500,
+    //the tile size of imageSlicing
+    imageSliceSize: 512,
+    //the tile size of transformTile result
+    transformTileSize: 256
+};
+
+export function setConfig(config: tileActorConfigType) {
+    config = config || {};
+    const keys = ['fetchMaxCount', 'tileCacheCount', 'imageSliceSize', 'transformTileSize'];
+    keys.forEach(key => {
+        const value = config[key];
+        if (isNumber(value) && value > 0) {
+            CONFIG[key] = Math.floor(value);
+        }
+    });
+    //merge into the default headers, null will remove the header
+    const { headers } = config;
+    if (headers) {
+        for (const key in headers) {
+            const value = headers[key];
+            if (value === null || value === undefined) {
+                delete HEADERS[key];
+            } else {
+                HEADERS[key] = value;
+            }
+        }
+    }
+}
+
+export function getConfig(): tileActorConfigType {
+    return Object.assign({}, CONFIG, {
+        headers: Object.assign({}, HEADERS)
+    });
+}
+
 function createError(message: string, code: number): Error {
     return new CustomError(message, code);
 }
@@ -41,8 +86,15 @@ export function isFetchDefaultError(error: Error) {
     return error === FetchCancelError || error === FetchTimeoutError;
 }
 
-export function createNetWorkError(url: string) {
-    return createError(`fetch NetWork error, the url is ${url}`, -5);
+export function createNetWorkError(url: string, status?: number) {
+    const error = createError(`fetch NetWork error, the url is ${url}`, -5) as CustomError;
+    //the http status of response
+    error.status = status;
+    return error;
+}
+
+export function isNotFoundError(error: Error) {
+    return !!(error && (error as CustomError).status === 404);
 }
 
 export function createParamsValidateError(message) {
@@ -57,6 +109,21 @@ export function createInnerError(message) {
     return createError(message, -3);
 }
 
+/**
+ * the function from main thread is string, restore it in worker
+ */
+export function parseFunction(source: string): Function | Error {
+    try {
+        const fn = new Function('return ' + source)();
+        if (typeof fn !== 'function') {
+            return createParamsValidateError('the source is not function:' + source);
+        }
+        return fn;
+    } catch (error) {
+        return createParamsValidateError('parse function error:' + error.message);
+    }
+}
+
 export function checkArray(url: any | Array<any>): Array<any> {
     if (Array.isArray(url)) {
         return url;
@@ -76,6 +143,15 @@ export function lnglat2Mercator(coordinates: Array<number>) {
 }
 
 
+export function mercator2Lnglat(coordinates: Array<number>) {
+    const [x, y] = coordinates;
+    const earthRad = 6378137.0;
+    const lng = x / earthRad * 180 / Math.PI;
+    const lat = (2 * Math.atan(Math.exp(y / earthRad)) - Math.PI / 2) * 180 / Math.PI;
+    return [lng, lat];
+}
+
+
 export function isPolygon(feature: GeoJSONPolygon | GeoJSONMultiPolygon) {
     if (!feature) {
         return false;
@@ -162,24 +238,208 @@ export function toTileItems(tiles: Array<[number, number, number]>): Array<TileI
 }
 
 
-function formatTileUrlBySubdomains(url: string, subdomains: string[]) {
+function formatTileUrlBySubdomains(url: string, x: number, y: number, options: tileUrlOptionsType) {
+    const { subdomains, subdomainStrategy } = options;
     if (!subdomains || !subdomains.length) {
         return url;
     }
     const len = subdomains.length;
-    let index = Math.floor(Math.random() * len);
-    index = Math.min(index, len - 1);
+    let index;
+    if (subdomainStrategy === 'random') {
+        index = Math.floor(Math.random() * len);
+        index = Math.min(index, len - 1);
+    } else {
+        //the same tile always has the same url, for browser http cache
+        index = Math.abs(x + y) % len;
+    }
     return replaceAll(url, '{s}', subdomains[index])
 }
 
-export function getTileUrl(urlTemplate: string, x: number, y: number, z: number, subdomains: string[]) {
+const URLTOKENS: Record<string, Function> = {};
+
+export function registerUrlToken(token: string, source: string) {
+    const fn = parseFunction(source);
+    if (fn instanceof Error) {
+        return fn;
+    }
+    URLTOKENS[token] = fn;
+}
+
+export function removeUrlToken(token: string) {
+    delete URLTOKENS[token];
+}
+
+function tileQuadKey(x: number, y: number, z: number) {
+    let quadKey = '';
+    for (let i = z; i > 0; i--) {
+        let digit = 0;
+        const mask = 1 << (i - 1);
+        if ((x & mask) !== 0) {
+            digit++;
+        }
+        if ((y & mask) !== 0) {
+            digit += 2;
+        }
+        quadKey += digit;
+    }
+    return quadKey;
+}
+
+const MERCATOR_EXTENT = 20037508.342789244;
+
+/**
+ * the tile bbox of EPSG:3857 and EPSG:4326
+ * the EPSG:4326 tile is 360/2^z degree, origin is [-180,90]
+ */
+export function tileBBOXs(x: number, y: number, z: number, projection: string) {
+    let bbox3857: BBOXtype, bbox4326: BBOXtype;
+    if (projection === 'EPSG:4326') {
+        const res = 360 / Math.pow(2, z);
+        bbox4326 = [-180 + x * res, 90 - (y + 1) * res, -180 + (x + 1) * res, 90 - y * res];
+        const [minx, miny] = lnglat2Mercator([bbox4326[0], Math.max(bbox4326[1], -85.0511287798)]);
+        const [maxx, maxy] = lnglat2Mercator([bbox4326[2], Math.min(bbox4326[3], 85.0511287798)]);
+        bbox3857 = [minx, miny, maxx, maxy];
+    } else {
+        const res = MERCATOR_EXTENT * 2 / Math.pow(2, z);
+        bbox3857 = [-MERCATOR_EXTENT + x * res, MERCATOR_EXTENT - (y + 1) * res, -MERCATOR_EXTENT + (x + 1) * res, MERCATOR_EXTENT - y * res];
+        const [minx, miny] = mercator2Lnglat([bbox3857[0], bbox3857[1]]);
+        const [maxx, maxy] = mercator2Lnglat([bbox3857[2], bbox3857[3]]);
+        bbox4326 = [minx, miny, maxx, maxy];
+    }
+    return {
+        bbox3857,
+        bbox4326
+    };
+}
+
+const MAX_LATITUDE = 85.0511287798;
+//the default max tiles count of seedTiles
+const SEED_MAX_TILES = 100000;
+
+function clamp(value: number, min: number, max: number) {
+    return Math.max(min, Math.min(max, value));
+}
+
+/**
+ * the tile col/row of lnglat, the EPSG:4326 tile is 360/2^z degree, origin is [-180,90]
+ */
+function lnglatToTile(lng: number, lat: number, z: number, projection: string): [number, number] {
+    const n = Math.pow(2, z);
+    if (projection === 'EPSG:4326') {
+        const res = 360 / n;
+        return [(lng + 180) / res, (90 - lat) / res];
+    }
+    const rad = clamp(lat, -MAX_LATITUDE, MAX_LATITUDE) * Math.PI / 180;
+    const x = (lng + 180) / 360 * n;
+    const y = (1 - Math.log(Math.tan(rad) + 1 / Math.cos(rad)) / Math.PI) / 2 * n;
+    return [x, y];
+}
+
+/**
+ * the tile range [startX, startY, endX, endY] of lnglat bbox
+ */
+export function getTileRange(bbox: BBOXtype, z: number, projection: string) {
+    const n = Math.pow(2, z);
+    const cols = n, rows = projection === 'EPSG:4326' ? Math.max(1, n / 2) : n;
+    const [minx, miny] = lnglatToTile(bbox[0], bbox[3], z, projection);
+    const [maxx, maxy] = lnglatToTile(bbox[2], bbox[1], z, projection);
+    const startX = clamp(Math.floor(minx), 0, cols - 1), startY = clamp(Math.floor(miny), 0, rows - 1);
+    //the tile edge is not in range
+    const endX = clamp(Math.ceil(maxx) - 1, startX, cols - 1), endY = clamp(Math.ceil(maxy) - 1, startY, rows - 1);
+    return [startX, startY, endX, endY];
+}
+
+/**
+ * the tiles count of lnglat bbox from minZoom to maxZoom
+ */
+export function getTileRangeCount(bbox: BBOXtype, minZoom: number, maxZoom: number, projection = 'EPSG:3857') {
+    let count = 0;
+    for (let z = minZoom; z <= maxZoom; z++) {
+        const [startX, startY, endX, endY] = getTileRange(bbox, z, projection);
+        count += (endX - startX + 1) * (endY - startY + 1);
+    }
+    return count;
+}
+
+export function getSeedMaxTiles(options: { maxTiles?: number }) {
+    const { maxTiles } = options;
+    return isNumber(maxTiles) && maxTiles > 0 ? maxTiles : SEED_MAX_TILES;
+}
+
+/**
+ * url template tokens:
+ * {x},{y},{z},{s},{-y}(TMS),{q}/{quadkey},{bbox-epsg-3857},{bbox-epsg-4326},{bbox-epsg-4326-latlon},{width},{height} and the registered tokens
+ */
+export function getTileUrl(urlTemplate: string, x: number, y: number, z: number, options: tileUrlOptionsType) {
     let key = '{x}';
     let url = replaceAll(urlTemplate, key, x as unknown as string);
     key = '{y}';
     url = replaceAll(url, key, y as unknown as string);
     key = '{z}';
     url = replaceAll(url, key, z as unknown as string);
-    return formatTileUrlBySubdomains(url, subdomains);
+    if (url.indexOf('{-y}') > -1) {
+        url = replaceAll(url, '{-y}', (Math.pow(2, z) - 1 - y) as unknown as string);
+    }
+    if (url.indexOf('{q}') > -1 || url.indexOf('{quadkey}') > -1) {
+        const quadKey = tileQuadKey(x, y, z);
+        url = replaceAll(url, '{q}', quadKey);
+        url = replaceAll(url, '{quadkey}', quadKey);
+    }
+    if (url.indexOf('{bbox-epsg-') > -1) {
+        const { bbox3857, bbox4326 } = tileBBOXs(x, y, z, options.projection);
+        url = replaceAll(url, '{bbox-epsg-3857}', bbox3857.join(','));
+        url = replaceAll(url, '{bbox-epsg-4326}', bbox4326.join(','));
+        //the axis order of WMS 1.3.0 CRS=EPSG:4326 is lat,lon
+        const [minx, miny, maxx, maxy] = bbox4326;
+        url = replaceAll(url, '{bbox-epsg-4326-latlon}', [miny, minx, maxy, maxx].join(','));
+    }
+    if (url.indexOf('{width}') > -1 || url.indexOf('{height}') > -1) {
+        const tileSize = (options.tileSize || 256) as unknown as string;
+        url = replaceAll(url, '{width}', tileSize);
+        url = replaceAll(url, '{height}', tileSize);
+    }
+    for (let token in URLTOKENS) {
+        key = '{' + token + '}';
+        if (url.indexOf(key) > -1) {
+            url = replaceAll(url, key, URLTOKENS[token](x, y, z, options));
+        }
+    }
+    return formatTileUrlBySubdomains(url, x, y, options);
+}
+
+/**
+ * mirrors can be urlTemplate list, or urlTemplate list of every urlTemplate when there are multiple urlTemplates
+ */
+export function getMirrorTileUrls(mirrors: Array<string | Array<string>>, index: number, x: number, y: number, z: number, options: tileUrlOptionsType) {
+    if (!mirrors || !mirrors.length) {
+        return [];
+    }
+    let templates = mirrors as Array<string>;
+    if (Array.isArray(mirrors[0])) {
+        templates = (mirrors[index] || []) as Array<string>;
+    }
+    return templates.filter(template => {
+        return !!template;
+    }).map(template => {
+        return getTileUrl(template, x, y, z, options);
+    });
+}
+
+/**
+ * the mirror urls of the url(not template), for the apis of url, such as getTile/getVTTile
+ * if the url is array, it can be the mirror urls of every url, such as [[mirror1, mirror2], [mirror3]]
+ */
+export function getMirrorUrls(mirrors: Array<string | Array<string>>, index: number): Array<string> {
+    if (!mirrors || !mirrors.length) {
+        return [];
+    }
+    let urls = mirrors as Array<string>;
+    if (Array.isArray(mirrors[0])) {
+        urls = (mirrors[index] || []) as Array<string>;
+    }
+    return urls.filter(url => {
+        return !!url;
+    });
 }
 
 export function validateSubdomains(urlTemplate: string, subdomains: string[]) {
@@ -195,11 +455,47 @@ export function getBlankVTTile() {
     return new Uint8Array(0).buffer;
 }
 
+/**
+ * the memory size(bytes) of tile data
+ */
+export function getTileDataSize(data: ImageBitmap | ArrayBuffer) {
+    if (!data) {
+        return 0;
+    }
+    if (data instanceof ArrayBuffer) {
+        return data.byteLength;
+    }
+    return (data.width || 0) * (data.height || 0) * 4;
+}
+
 export function copyArrayBuffer(buffer: ArrayBuffer) {
     const array = new Uint8Array(buffer);
     return new Uint8Array(array).buffer;
 }
 
+export function isGzipBuffer(buffer: ArrayBuffer) {
+    if (!buffer || buffer.byteLength < 2) {
+        return false;
+    }
+    const array = new Uint8Array(buffer, 0, 2);
+    return array[0] === 0x1f && array[1] === 0x8b;
+}
+
+export function gunzipBuffer(buffer: ArrayBuffer) {
+    return new Promise((resolve: (buffer: ArrayBuffer) => void, reject) => {
+        if (typeof DecompressionStream === 'undefined') {
+            reject(createInnerError('not support gzip data.The current environment does not support DecompressionStream'));
+            return;
+        }
+        const stream = new Response(buffer).body.pipeThrough(new DecompressionStream('gzip'));
+        new Response(stream).arrayBuffer().then(data => {
+            resolve(data);
+        }).catch(error => {
+            reject(error);
+        });
+    });
+}
+
 export function needFormatImageType(options: returnResultType) {
     const { returnBase64, returnBlobURL, returnUint32Buffer, forceReturnImage } = options;
     if (forceReturnImage) {
@@ -209,6 +505,10 @@ export function needFormatImageType(options: returnResultType) {
 }
 
 export function needPostProcessingImage(options: postProcessingOptionsType) {
-    const { filter, opacity, gaussianBlurRadius, mosaicSize, oldPhoto } = options;
-    return (filter || opacity || gaussianBlurRadius || mosaicSize || oldPhoto);
+    const { filter, opacity, gaussianBlurRadius, mosaicSize, oldPhoto, invertColor, postProcessing,
+        brightness, contrast, saturation, hueRotate, gamma, levels, curves, colorToTransparent, colorReplace,
+        convolution, sharpen, unsharpMask, emboss, sobel, darkMode } = options;
+    return (filter || opacity || gaussianBlurRadius || mosaicSize || oldPhoto || invertColor || (Array.isArray(postProcessing) && postProcessing.length > 0) ||
+        isNumber(brightness) || isNumber(contrast) || isNumber(saturation) || isNumber(hueRotate) || isNumber(gamma) || levels || curves ||
+        colorToTransparent || colorReplace || convolution || sharpen || unsharpMask || emboss || sobel || darkMode);
 }
@@ -1,19 +1,44 @@
-import { createImageTypeResult, postProcessingImage, colorsTerrainTile, getCanvas } from './canvas';
+import { createImageTypeResult, postProcessingImage, colorsTerrainTile, getCanvas, registerFilter, removeFilter } from './canvas';
 import { imageSlicing, imageToBlobURL } from './imageslice';
 import { imagetTileFetch } from './imagetile';
 import { clip, injectMask, removeMask, tileBBOXIntersectMask } from './tileclip';
-import { cancelFetch } from './tilefetch';
-import { encodeTerrainTile, getTile, getTileWithMaxZoom, getVTTile, layout_Tiles } from './tileget';
+import { cancelFetch, getTileCacheUsage, registerRequestTransformer, removeRequestTransformer, setFetchHostMaxCount, setTileCacheOptions, updateFetchConfig, updateFetchPriority } from './tilefetch';
+import { encodeTerrainTile, getTile, getTileWithMaxZoomResult, getVTTile, layout_Tiles } from './tileget';
 import { tileRectify } from './tilerectify';
+import { clearStore, exportStore, getStoreStats, importStore, removeStoreTilesByPrefix, setStoreOptions } from './store';
 import { tileTransform } from './tiletransform';
-import { checkBuffers, createInnerError, isImageBitmap, CancelTaskLRUCache } from './util';
+import { injectTileSource, removeTileSource } from './tilesource';
+import { getSeedTiles, seedTiles } from './tileseed';
+import { createTaskProgress, postActorRequest, removeTaskProgress, setProgressWorker } from './taskprogress';
+import { batchTiles, getBatchItemBuffers, getBatchItemTaskIds } from './tilebatch';
+import { runPipeline } from './tilepipeline';
+import { batchItemResultType } from './types';
+import { checkBuffers, createInnerError, isImageBitmap, CancelTaskLRUCache, registerUrlToken, removeUrlToken, setConfig, getConfig } from './util';
 
-export const initialize = function () {
+//cancel the task and the items of batch task
+function cancelTask(taskId) {
+    const taskIds = [taskId].concat(getBatchItemTaskIds(taskId));
+    taskIds.forEach(id => {
+        CancelTaskLRUCache.add(id, 1);
+        cancelFetch(id);
+    });
+}
+
+export const initialize = function (self) {
+    setProgressWorker(self);
 };
 
 export const onmessage = function (message, postResponse) {
     const data = message.data || {};
     const type = data.__type;
+    if (data.__progress) {
+        createTaskProgress(message.actorId, data);
+        const post = postResponse;
+        postResponse = (...args) => {
+            removeTaskProgress(data);
+            post(...args);
+        };
+    }
     if (type === 'getTile') {
         const { url } = data;
         getTile(url, data).then(image => {
@@ -32,8 +57,10 @@ export const onmessage = function (message, postResponse) {
         return;
     }
     if (type === 'getTileWithMaxZoom') {
-        getTileWithMaxZoom(data).then(image => {
-            postResponse(null, image, checkBuffers(image));
+        getTileWithMaxZoomResult(data).then(result => {
+            const { image } = result;
+            //report the zoom actually used when fallback to parent tile
+            postResponse(null, data.fallbackToParent ? result : image, checkBuffers(image));
         }).catch(error => {
             postResponse(error);
         });
@@ -86,17 +113,211 @@ export const onmessage = function (message, postResponse) {
         postResponse();
         return;
     }
+    if (type === 'injectTileSource') {
+        injectTileSource(data.id, data.sourceType, data.data).then(() => {
+            postResponse();
+        }).catch(error => {
+            postResponse(error);
+        });
+        return;
+    }
+    if (type === 'removeTileSource') {
+        removeTileSource(data.id);
+        postResponse();
+        return;
+    }
     if (type === 'cancelFetch') {
         const taskId = data.taskId || data.__taskId;
         if (!taskId) {
             postResponse(createInnerError('cancelFetch need taskId'));
             return;
         }
-        CancelTaskLRUCache.add(taskId, 1);
-        cancelFetch(taskId);
+        cancelTask(taskId);
+        postResponse();
+        return;
+    }
+    if (type === 'cancelTasks') {
+        const taskIds = data.taskIds || [];
+        taskIds.forEach(taskId => {
+            cancelTask(taskId);
+        });
+        postResponse();
+        return;
+    }
+    if (type === 'runPipeline') {
+        runPipeline(data).then(image => {
+            postResponse(null, image, checkBuffers(image));
+        }).catch(error => {
+            postResponse(error);
+        });
+        return;
+    }
+    if (type === 'batch') {
+        const { stream } = data;
+        //post the result of item to main thread at once
+        const onResult = stream ? (item: batchItemResultType) => {
+            postActorRequest(message.actorId, '_receiveBatchResult', { taskId: data.__taskId, item }, getBatchItemBuffers(item));
+        } : null;
+        batchTiles(data, onResult).then(results => {
+            if (stream) {
+                //the results have been posted
+                postResponse(null, results.map(item => {
+                    return { index: item.index };
+                }));
+                return;
+            }
+            let buffers = [];
+            results.forEach(item => {
+                buffers = buffers.concat(getBatchItemBuffers(item));
+            });
+            postResponse(null, results, buffers);
+        }).catch(error => {
+            postResponse(error);
+        });
+        return;
+    }
+    if (type === 'updateFetchPriority') {
+        const taskId = data.taskId || data.__taskId;
+        if (!taskId) {
+            postResponse(createInnerError('updateFetchPriority need taskId'));
+            return;
+        }
+        updateFetchPriority(taskId, data.priority);
+        postResponse();
+        return;
+    }
+    if (type === 'setFetchHostMaxCount') {
+        const { host, count } = data;
+        setFetchHostMaxCount(host, count);
+        postResponse();
+        return;
+    }
+    if (type === 'setIndexedDBCacheOptions') {
+        setStoreOptions(data.options);
+        postResponse();
+        return;
+    }
+    if (type === 'clearIndexedDBCache') {
+        clearStore().then(() => {
+            postResponse();
+        }).catch(error => {
+            postResponse(error);
+        });
+        return;
+    }
+    if (type === 'getIndexedDBCacheStats') {
+        getStoreStats().then(stats => {
+            postResponse(null, stats, []);
+        }).catch(error => {
+            postResponse(error);
+        });
+        return;
+    }
+    if (type === 'removeIndexedDBCacheByPrefix') {
+        removeStoreTilesByPrefix(data.prefix).then(count => {
+            postResponse(null, count, []);
+        }).catch(error => {
+            postResponse(error);
+        });
+        return;
+    }
+    if (type === 'setTileCacheOptions') {
+        setTileCacheOptions(data.options);
+        postResponse();
+        return;
+    }
+    if (type === 'getTileCacheUsage') {
+        postResponse(null, getTileCacheUsage());
+        return;
+    }
+    if (type === 'setConfig') {
+        setConfig(data.config);
+        updateFetchConfig();
+        postResponse();
+        return;
+    }
+    if (type === 'getConfig') {
+        postResponse(null, getConfig());
+        return;
+    }
+    if (type === 'exportIndexedDBCache') {
+        exportStore(data.prefix).then(blob => {
+            postResponse(null, blob);
+        }).catch(error => {
+            postResponse(error);
+        });
+        return;
+    }
+    if (type === 'importIndexedDBCache') {
+        const { data: cacheData } = data;
+        const buffer: Promise<ArrayBuffer> = cacheData instanceof Blob ? cacheData.arrayBuffer() : Promise.resolve(cacheData);
+        buffer.then(buffer => {
+            return importStore(buffer);
+        }).then(count => {
+            postResponse(null, count);
+        }).catch(error => {
+            postResponse(error);
+        });
+        return;
+    }
+    if (type === 'registerUrlToken') {
+        const error = registerUrlToken(data.token, data.source);
+        if (error instanceof Error) {
+            postResponse(error);
+            return;
+        }
+        postResponse();
+        return;
+    }
+    if (type === 'removeUrlToken') {
+        removeUrlToken(data.token);
+        postResponse();
+        return;
+    }
+    if (type === 'registerRequestTransformer') {
+        const error = registerRequestTransformer(data.name, data.source, data.params);
+        if (error instanceof Error) {
+            postResponse(error);
+            return;
+        }
+        postResponse();
+        return;
+    }
+    if (type === 'removeRequestTransformer') {
+        removeRequestTransformer(data.name);
+        postResponse();
+        return;
+    }
+    if (type === 'registerFilter') {
+        const error = registerFilter(data.name, data.source);
+        if (error instanceof Error) {
+            postResponse(error);
+            return;
+        }
+        postResponse();
+        return;
+    }
+    if (type === 'removeFilter') {
+        removeFilter(data.name);
         postResponse();
         return;
     }
+    if (type === 'getSeedTiles') {
+        getSeedTiles(data).then(tiles => {
+            postResponse(null, tiles);
+        }).catch(error => {
+            postResponse(error);
+        });
+        return;
+    }
+    if (type === 'seedTiles') {
+        seedTiles(data).then(result => {
+            postResponse(null, result);
+        }).catch(error => {
+            postResponse(error);
+        });
+        return;
+    }
     if (type === 'imageSlicing') {
         imageSlicing(data).then((result: any) => {
             const buffers = [];
@@ -131,9 +352,12 @@ export const onmessage = function (message, postResponse) {
     }
     if (type === 'colorTerrainTile') {
         const { tile, colors } = data;
-        const image = colorsTerrainTile(colors, tile);
-        const postImage = postProcessingImage(image, data);
-        createImageTypeResult(getCanvas(), postImage, data).then(url => {
+        //the custom filter may throw error
+        Promise.resolve().then(() => {
+            const image = colorsTerrainTile(colors, tile);
+            const postImage = postProcessingImage(image, data);
+            return createImageTypeResult(getCanvas(), postImage, data);
+        }).then(url => {
             postResponse(null, url, checkBuffers(url));
         }).catch(error => {
             postResponse(error);
@@ -150,8 +374,10 @@ export const onmessage = function (message, postResponse) {
     }
     if (type === 'tilePostAndToBlobURL') {
         const { image } = data;
-        const postImage = postProcessingImage(image, data);
-        createImageTypeResult(getCanvas(), postImage, data).then(image => {
+        Promise.resolve().then(() => {
+            const postImage = postProcessingImage(image, data);
+            return createImageTypeResult(getCanvas(), postImage, data);
+        }).then(image => {
             postResponse(null, image, checkBuffers(image));
         }).catch(error => {
             postResponse(error);
@@ -0,0 +1,70 @@
+import { test } from 'node:test';
+import * as assert from 'node:assert';
+import LRUCache from '../src/LRUCache';
+
+function createCache(max: number, removed: Array<string>) {
+    return new LRUCache<string>(max, item => {
+        removed.push(item);
+    }, item => {
+        return item.length;
+    });
+}
+
+test('LRUCache remove the oldest items when exceed max count', () => {
+    const removed = [];
+    const cache = createCache(2, removed);
+    cache.add('a', 'a').add('b', 'b').add('c', 'c');
+    assert.deepStrictEqual(cache.keys(), ['b', 'c']);
+    assert.deepStrictEqual(removed, ['a']);
+});
+
+test('LRUCache remove the oldest items when exceed maxBytes', () => {
+    const removed = [];
+    const cache = createCache(100, removed);
+    cache.setMaxBytes(10);
+    cache.add('a', 'aaaa').add('b', 'bbbb');
+    assert.strictEqual(cache.bytes, 8);
+    cache.add('c', 'cccc');
+    assert.deepStrictEqual(cache.keys(), ['b', 'c']);
+    assert.deepStrictEqual(removed, ['aaaa']);
+    assert.strictEqual(cache.bytes, 8);
+});
+
+test('LRUCache update the bytes when replace the item', () => {
+    const removed = [];
+    const cache = createCache(100, removed);
+    cache.setMaxBytes(10);
+    cache.add('a', 'aa').add('b', 'bb');
+    cache.add('a', 'aaaaaa');
+    assert.strictEqual(cache.bytes, 8);
+    assert.deepStrictEqual(cache.keys(), ['b', 'a']);
+    cache.remove('b');
+    assert.strictEqual(cache.bytes, 6);
+    assert.strictEqual(cache.getAndRemove('a'), 'aaaaaa');
+    assert.strictEqual(cache.bytes, 0);
+});
+
+test('LRUCache keep the last item even if it exceed maxBytes', () => {
+    const removed = [];
+    const cache = createCache(100, removed);
+    cache.setMaxBytes(4);
+    cache.add('a', 'aa').add('b', 'bbbbbbbb');
+    assert.deepStrictEqual(cache.keys(), ['b']);
+    assert.strictEqual(cache.bytes, 8);
+});
+
+test('LRUCache shrink when set smaller maxBytes and max count', () => {
+    const removed = [];
+    const cache = createCache(100, removed);
+    cache.add('a', 'aaaa').add('b', 'bbbb').add('c', 'cccc');
+    assert.strictEqual(cache.bytes, 12);
+    cache.setMaxBytes(8);
+    assert.deepStrictEqual(cache.keys(), ['b', 'c']);
+    cache.setMaxSize(1);
+    assert.deepStrictEqual(cache.keys(), ['c']);
+    assert.deepStrictEqual(removed, ['aaaa', 'bbbb']);
+    assert.strictEqual(cache.bytes, 4);
+    cache.reset();
+    assert.strictEqual(cache.bytes, 0);
+    assert.deepStrictEqual(removed, ['aaaa', 'bbbb', 'cccc']);
+});
@@ -0,0 +1,108 @@
+import { test } from 'node:test';
+import * as assert from 'node:assert';
+import { convolve, emboss, isKernel, sharpen, sobel, unsharpMask } from '../src/convolution';
+
+//the kernel take the left pixel
+const LEFT = [0, 0, 0, 1, 0, 0, 0, 0, 0];
+
+function createImage(width: number, height: number, getPixel: (x: number, y: number) => [number, number, number, number]) {
+    const data = new Uint8ClampedArray(width * height * 4);
+    for (let y = 0; y < height; y++) {
+        for (let x = 0; x < width; x++) {
+            data.set(getPixel(x, y), (y * width + x) * 4);
+        }
+    }
+    return data;
+}
+
+function flatImage() {
+    return createImage(4, 4, () => [100, 150, 200, 128]);
+}
+
+function red(data: Uint8ClampedArray) {
+    return Array.from(data.filter((v, i) => i % 4 === 0));
+}
+
+test('isKernel only support 3x3 and 5x5', () => {
+    assert.ok(isKernel(LEFT));
+    assert.ok(isKernel(new Array(25).fill(1)));
+    assert.ok(!isKernel([1, 2, 3]));
+    assert.ok(!isKernel(null));
+});
+
+test('convolve with identity kernel not change the data', () => {
+    const data = createImage(3, 3, (x, y) => [x * 50, y * 50, 10, 255]);
+    const result = new Uint8ClampedArray(data);
+    convolve(result, 3, 3, [0, 0, 0, 0, 1, 0, 0, 0, 0]);
+    assert.deepStrictEqual(result, data);
+});
+
+test('convolve edge modes', () => {
+    const image = () => createImage(3, 1, x => [(x + 1) * 10, 0, 0, 255]);
+    const edges: Record<string, Array<number>> = {
+        clamp: [10, 10, 20],
+        mirror: [20, 10, 20],
+        wrap: [30, 10, 20],
+        transparent: [0, 10, 20]
+    };
+    for (const edge in edges) {
+        const data = image();
+        convolve(data, 3, 1, LEFT, 1, 0, edge as any);
+        assert.deepStrictEqual(red(data), edges[edge], edge);
+    }
+});
+
+test('sharpen, unsharpMask and emboss not change the flat image with clamp edge', () => {
+    const filters = [
+        (data: Uint8ClampedArray) => sharpen(data, 4, 4, 2),
+        (data: Uint8ClampedArray) => unsharpMask(data, 4, 4, 1, 2),
+        (data: Uint8ClampedArray) => unsharpMask(data, 4, 4, 2, 2),
+        (data: Uint8ClampedArray) => emboss(data, 4, 4)
+    ];
+    filters.forEach((filter, index) => {
+        const data = flatImage();
+        filter(data);
+        assert.deepStrictEqual(data, flatImage(), 'filter ' + index);
+    });
+});
+
+test('sharpen and blur with transparent edge not darken the edge pixels', () => {
+    const data = flatImage();
+    sharpen(data, 4, 4, 1, 'transparent');
+    assert.deepStrictEqual(data, flatImage());
+    const blurred = flatImage();
+    convolve(blurred, 4, 4, [1, 2, 1, 2, 4, 2, 1, 2, 1], null, 0, 'transparent');
+    assert.deepStrictEqual(blurred, flatImage());
+});
+
+test('convolve with transparent edge not re-normalise the kernel of zero sum', () => {
+    const data = flatImage();
+    convolve(data, 4, 4, [0, 0, 0, -1, 1, 0, 0, 0, 0], 1, 0, 'transparent');
+    //the left edge has not left pixel
+    assert.strictEqual(data[0], 100);
+    assert.strictEqual(data[4], 0);
+});
+
+test('unsharpMask ignore the difference less than threshold', () => {
+    const image = () => createImage(4, 4, x => [x === 2 ? 104 : 100, 100, 100, 255]);
+    const data = image();
+    unsharpMask(data, 4, 4, 1, 1, 10);
+    assert.deepStrictEqual(data, image());
+    unsharpMask(data, 4, 4, 1, 1, 0);
+    assert.ok(data[2 * 4] > 104);
+});
+
+test('sobel gradient magnitude', () => {
+    const data = flatImage();
+    sobel(data, 4, 4);
+    assert.deepStrictEqual(red(data), new Array(16).fill(0));
+    assert.strictEqual(data[3], 128);
+    const edge = createImage(4, 4, x => x < 2 ? [0, 0, 0, 255] : [255, 255, 255, 255]);
+    sobel(edge, 4, 4);
+    const values = red(edge);
+    //the edge between column 1 and 2
+    assert.strictEqual(values[0], 0);
+    assert.strictEqual(values[1], 255);
+    assert.strictEqual(values[2], 255);
+    assert.strictEqual(values[3], 0);
+});
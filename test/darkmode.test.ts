@@ -0,0 +1,62 @@
+import { test } from 'node:test';
+import * as assert from 'node:assert';
+import { darkMode, darkModeParams } from '../src/darkmode';
+
+function pixels(colors: Array<[number, number, number, number]>) {
+    const data = new Uint8ClampedArray(colors.length * 4);
+    colors.forEach((color, i) => {
+        data.set(color, i * 4);
+    });
+    return data;
+}
+
+function pixel(data: Uint8ClampedArray, i: number) {
+    return Array.from(data.subarray(i * 4, i * 4 + 4));
+}
+
+function params(options: Partial<darkModeParams> = {}): darkModeParams {
+    return Object.assign({ space: 'oklab', contrast: 1, tint: null, tintAmount: 0 }, options);
+}
+
+test('darkMode invert white and black', () => {
+    ['oklab', 'hsl'].forEach(space => {
+        const data = pixels([[255, 255, 255, 255], [0, 0, 0, 200]]);
+        darkMode(data, 2, 1, params({ space: space as any }));
+        assert.deepStrictEqual(pixel(data, 0), [0, 0, 0, 255], space);
+        assert.deepStrictEqual(pixel(data, 1), [255, 255, 255, 200], space);
+    });
+});
+
+test('darkMode keep the hue', () => {
+    ['oklab', 'hsl'].forEach(space => {
+        const data = pixels([[200, 30, 30, 255], [30, 30, 200, 255]]);
+        darkMode(data, 2, 1, params({ space: space as any }));
+        const [r1, g1, b1] = pixel(data, 0);
+        const [r2, g2, b2] = pixel(data, 1);
+        assert.ok(r1 > g1 && r1 > b1, space + ' red');
+        assert.ok(b2 > r2 && b2 > g2, space + ' blue');
+    });
+});
+
+test('darkMode not change the transparent pixels', () => {
+    const data = pixels([[255, 255, 255, 0], [255, 255, 255, 255], [255, 255, 255, 0]]);
+    darkMode(data, 3, 1, params());
+    assert.deepStrictEqual(pixel(data, 0), [255, 255, 255, 0]);
+    assert.deepStrictEqual(pixel(data, 1), [0, 0, 0, 255]);
+    assert.deepStrictEqual(pixel(data, 2), [255, 255, 255, 0]);
+});
+
+test('darkMode contrast scale the lightness around the middle', () => {
+    const low = pixels([[255, 255, 255, 255]]);
+    darkMode(low, 1, 1, params({ space: 'hsl', contrast: 0.5 }));
+    assert.deepStrictEqual(pixel(low, 0), [64, 64, 64, 255]);
+});
+
+test('darkMode tint the gray by the hue of tint', () => {
+    ['oklab', 'hsl'].forEach(space => {
+        const data = pixels([[200, 200, 200, 255]]);
+        darkMode(data, 1, 1, params({ space: space as any, tint: [0, 0, 255], tintAmount: 0.5 }));
+        const [r, g, b] = pixel(data, 0);
+        assert.ok(b > r && b > g, space);
+    });
+});
@@ -0,0 +1,84 @@
+import { gzipSync } from 'zlib';
+
+export type PMTilesTestEntry = {
+    tileId: number;
+    data: string;
+    runLength?: number;
+}
+
+function writeVarint(bytes: Array<number>, value: number) {
+    while (value >= 0x80) {
+        bytes.push((value % 128) | 0x80);
+        value = Math.floor(value / 128);
+    }
+    bytes.push(value);
+}
+
+function toArrayBuffer(data: Uint8Array) {
+    return data.buffer.slice(data.byteOffset, data.byteOffset + data.byteLength) as ArrayBuffer;
+}
+
+export function textToBuffer(text: string) {
+    return toArrayBuffer(new TextEncoder().encode(text));
+}
+
+export function bufferToText(buffer: ArrayBuffer) {
+    return new TextDecoder().decode(new Uint8Array(buffer));
+}
+
+/**
+ * a pmtiles v3 archive with root directory only, the tile data is stored by entries order
+ */
+export function createPMTiles(entries: Array<PMTilesTestEntry>, options: { gzip?: boolean, minZoom?: number, maxZoom?: number } = {}) {
+    const tiles = entries.map(entry => {
+        return new TextEncoder().encode(entry.data);
+    });
+    const directory: Array<number> = [];
+    writeVarint(directory, entries.length);
+    let lastId = 0;
+    entries.forEach(entry => {
+        writeVarint(directory, entry.tileId - lastId);
+        lastId = entry.tileId;
+    });
+    entries.forEach(entry => {
+        writeVarint(directory, entry.runLength === undefined ? 1 : entry.runLength);
+    });
+    tiles.forEach(tile => {
+        writeVarint(directory, tile.length);
+    });
+    let offset = 0;
+    tiles.forEach(tile => {
+        writeVarint(directory, offset + 1);
+        offset += tile.length;
+    });
+    let root = new Uint8Array(directory);
+    if (options.gzip) {
+        root = new Uint8Array(gzipSync(root));
+    }
+    const headerSize = 127;
+    const tileDataOffset = headerSize + root.length;
+    const result = new Uint8Array(tileDataOffset + offset);
+    const view = new DataView(result.buffer);
+    const magic = 'PMTiles';
+    for (let i = 0; i < magic.length; i++) {
+        result[i] = magic.charCodeAt(i);
+    }
+    result[7] = 3;
+    view.setUint32(8, headerSize, true);
+    view.setUint32(16, root.length, true);
+    view.setUint32(56, tileDataOffset, true);
+    view.setUint32(64, offset, true);
+    //internal compression
+    result[97] = options.gzip ? 2 : 1;
+    //tile compression
+    result[98] = 1;
+    result[100] = options.minZoom || 0;
+    result[101] = options.maxZoom === undefined ? 2 : options.maxZoom;
+    result.set(root, headerSize);
+    let pos = tileDataOffset;
+    tiles.forEach(tile => {
+        result.set(tile, pos);
+        pos += tile.length;
+    });
+    return result.buffer;
+}
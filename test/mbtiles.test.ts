@@ -0,0 +1,67 @@
+import { test } from 'node:test';
+import * as assert from 'node:assert';
+import { readFileSync } from 'fs';
+import { join } from 'path';
+import { getMBTilesTile, MBTilesArchive, openMBTiles } from '../src/mbtiles';
+import { fetchTileSourceData, injectTileSource, removeTileSource } from '../src/tilesource';
+import { bufferToText, textToBuffer } from './helper';
+
+//the test is run in test-dist/test
+const FIXTURES = join(__dirname, '../../test/fixtures');
+
+function readFixture(name: string) {
+    const data = readFileSync(join(FIXTURES, name));
+    return data.buffer.slice(data.byteOffset, data.byteOffset + data.byteLength) as ArrayBuffer;
+}
+
+function openFixture(name: string) {
+    const archive = openMBTiles(readFixture(name));
+    assert.ok(!(archive instanceof Error), (archive as Error).message);
+    return archive as MBTilesArchive;
+}
+
+test('getMBTilesTile read tiles table and flip TMS row', async () => {
+    const archive = openFixture('tiles.mbtiles');
+    assert.strictEqual(bufferToText(await getMBTilesTile(archive, 0, 0, 0)), 'tile-0-0-0');
+    assert.strictEqual(bufferToText(await getMBTilesTile(archive, 1, 1, 0)), 'tile-1-1-0');
+    assert.strictEqual(await getMBTilesTile(archive, 1, 1, 1), null);
+});
+
+test('getMBTilesTile read the tile data in overflow pages', async () => {
+    const archive = openFixture('tiles.mbtiles');
+    const data = new Uint8Array(await getMBTilesTile(archive, 2, 1, 1));
+    assert.strictEqual(data.length, 10000);
+    for (let i = 0; i < data.length; i++) {
+        if (data[i] !== (i * 7) % 251) {
+            assert.fail(`the byte ${i} is error`);
+        }
+    }
+});
+
+test('getMBTilesTile gunzip the gzip tile data', async () => {
+    const archive = openFixture('tiles.mbtiles');
+    assert.strictEqual(bufferToText(await getMBTilesTile(archive, 2, 3, 0)), 'gzip-tile-data');
+});
+
+test('getMBTilesTile read the tiles view of map and images', async () => {
+    const archive = openFixture('mapimages.mbtiles');
+    assert.strictEqual(bufferToText(await getMBTilesTile(archive, 1, 0, 1)), 'shared-tile');
+    assert.strictEqual(bufferToText(await getMBTilesTile(archive, 1, 1, 1)), 'shared-tile');
+    assert.strictEqual(await getMBTilesTile(archive, 1, 0, 0), null);
+});
+
+test('openMBTiles return error when the data is not sqlite', () => {
+    const archive = openMBTiles(textToBuffer('not sqlite database'));
+    assert.ok(archive instanceof Error);
+    assert.match(archive.message, /not sqlite database/);
+});
+
+test('fetchTileSourceData of injected mbtiles', async () => {
+    await injectTileSource('test-mbtiles', 'mbtiles', readFixture('tiles.mbtiles'));
+    try {
+        assert.strictEqual(bufferToText(await fetchTileSourceData('mbtiles://test-mbtiles/1/1/0.png', {})), 'tile-1-1-0');
+        await assert.rejects(fetchTileSourceData('mbtiles://test-mbtiles/1/0/0', {}), { status: 404 });
+    } finally {
+        removeTileSource('test-mbtiles');
+    }
+});
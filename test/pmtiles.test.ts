@@ -0,0 +1,50 @@
+import { test } from 'node:test';
+import * as assert from 'node:assert';
+import { getPMTilesTile, openPMTiles, zxyToTileId } from '../src/pmtiles';
+import { bufferToText, createPMTiles } from './helper';
+
+function bufferReader(data: ArrayBuffer) {
+    return (offset: number, length: number) => {
+        return Promise.resolve(data.slice(offset, offset + length));
+    };
+}
+
+test('zxyToTileId on hilbert curve', () => {
+    assert.strictEqual(zxyToTileId(0, 0, 0), 0);
+    assert.strictEqual(zxyToTileId(1, 0, 0), 1);
+    assert.strictEqual(zxyToTileId(1, 0, 1), 2);
+    assert.strictEqual(zxyToTileId(1, 1, 1), 3);
+    assert.strictEqual(zxyToTileId(1, 1, 0), 4);
+    assert.strictEqual(zxyToTileId(2, 0, 0), 5);
+    assert.strictEqual(zxyToTileId(12, 3423, 1763), 19078479);
+    assert.strictEqual(zxyToTileId(20, 0, 0), (Math.pow(4, 20) - 1) / 3);
+});
+
+test('getPMTilesTile read tiles and run length entries', async () => {
+    const data = createPMTiles([
+        { tileId: 0, data: 'z0' },
+        { tileId: 1, data: 'z1-run', runLength: 2 },
+        { tileId: 5, data: 'z2-0-0' }
+    ]);
+    const archive = await openPMTiles(bufferReader(data));
+    assert.strictEqual(archive.header.maxZoom, 2);
+    assert.strictEqual(bufferToText(await getPMTilesTile(archive, 0, 0, 0)), 'z0');
+    assert.strictEqual(bufferToText(await getPMTilesTile(archive, 1, 0, 0)), 'z1-run');
+    assert.strictEqual(bufferToText(await getPMTilesTile(archive, 1, 0, 1)), 'z1-run');
+    assert.strictEqual(await getPMTilesTile(archive, 1, 1, 1), null);
+    assert.strictEqual(bufferToText(await getPMTilesTile(archive, 2, 0, 0)), 'z2-0-0');
+    //out of zoom range
+    assert.strictEqual(await getPMTilesTile(archive, 3, 0, 0), null);
+});
+
+test('openPMTiles with gzip internal compression', async () => {
+    const data = createPMTiles([{ tileId: 0, data: 'gzip-root' }], { gzip: true });
+    const archive = await openPMTiles(bufferReader(data));
+    assert.strictEqual(bufferToText(await getPMTilesTile(archive, 0, 0, 0)), 'gzip-root');
+});
+
+test('openPMTiles reject the data is not pmtiles v3', async () => {
+    const data = new Uint8Array(createPMTiles([{ tileId: 0, data: 'z0' }]));
+    data[7] = 2;
+    await assert.rejects(openPMTiles(bufferReader(data.buffer)), /only support pmtiles v3/);
+});
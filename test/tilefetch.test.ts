@@ -0,0 +1,177 @@
+import { test } from 'node:test';
+import * as assert from 'node:assert';
+import { cancelFetch, fetchTileBuffer, setFetchHostMaxCount, updateFetchPriority } from '../src/tilefetch';
+import { FetchCancelError } from '../src/util';
+import { bufferToText, textToBuffer } from './helper';
+
+//the origin of relative url
+(globalThis as any).self = { location: { href: 'http://localhost/' } };
+
+type FetchCall = {
+    url: string;
+    respond: (res: Response) => void;
+}
+
+/**
+ * the stub of fetch, the response is sent by the test, reject when the fetch is aborted
+ */
+function createFetchStub() {
+    const calls: Array<FetchCall> = [];
+    const fetch = (url: string, options: Record<string, any>) => {
+        return new Promise((resolve: (res: Response) => void, reject) => {
+            calls.push({ url, respond: resolve });
+            const signal: AbortSignal = options.signal;
+            if (signal) {
+                signal.addEventListener('abort', () => {
+                    reject(signal.reason);
+                });
+            }
+        });
+    };
+    return { calls, fetch };
+}
+
+async function withFetch(fetch: any, callback: () => Promise<void>) {
+    const globalFetch = globalThis.fetch;
+    globalThis.fetch = fetch;
+    try {
+        await callback();
+    } finally {
+        globalThis.fetch = globalFetch;
+    }
+}
+
+//wait the request transform and the queue
+function nextTick(time = 0) {
+    return new Promise(resolve => {
+        setTimeout(resolve, time);
+    });
+}
+
+function okResponse(text: string) {
+    return new Response(textToBuffer(text), { status: 200 });
+}
+
+function fetchText(url: string, taskId: string, options = {}, mirrorUrls?: Array<string>) {
+    return fetchTileBuffer(url, {}, Object.assign({ __taskId: taskId }, options), { mirrorUrls }).then(bufferToText);
+}
+
+test('fetch queue runs the higher priority first and follows updateFetchPriority', async () => {
+    const stub = createFetchStub();
+    await withFetch(stub.fetch, async () => {
+        setFetchHostMaxCount('http://queue.test', 1);
+        const first = fetchText('http://queue.test/0', 'queue-0');
+        const low = fetchText('http://queue.test/1', 'queue-1');
+        const middle = fetchText('http://queue.test/2', 'queue-2', { priority: 5 });
+        const raised = fetchText('http://queue.test/3', 'queue-3');
+        updateFetchPriority('queue-3', 10);
+        await nextTick();
+        assert.deepStrictEqual(stub.calls.map(call => call.url), ['http://queue.test/0']);
+
+        for (let i = 0; i < 4; i++) {
+            stub.calls[i].respond(okResponse(stub.calls[i].url));
+            await nextTick();
+        }
+        assert.deepStrictEqual(stub.calls.map(call => call.url), [
+            'http://queue.test/0', 'http://queue.test/3', 'http://queue.test/2', 'http://queue.test/1'
+        ]);
+        assert.deepStrictEqual(await Promise.all([first, low, middle, raised]), [
+            'http://queue.test/0', 'http://queue.test/1', 'http://queue.test/2', 'http://queue.test/3'
+        ]);
+        setFetchHostMaxCount('http://queue.test', 0);
+    });
+});
+
+test('fetch queue removes the cancelled fetch before it runs', async () => {
+    const stub = createFetchStub();
+    await withFetch(stub.fetch, async () => {
+        setFetchHostMaxCount('http://cancel.test', 1);
+        const first = fetchText('http://cancel.test/0', 'cancel-0');
+        const queued = fetchText('http://cancel.test/1', 'cancel-1');
+        const last = fetchText('http://cancel.test/2', 'cancel-2');
+        await nextTick();
+        cancelFetch('cancel-1');
+        await assert.rejects(queued, error => error === FetchCancelError);
+
+        stub.calls[0].respond(okResponse('0'));
+        await nextTick();
+        stub.calls[1].respond(okResponse('2'));
+        assert.deepStrictEqual(await Promise.all([first, last]), ['0', '2']);
+        assert.deepStrictEqual(stub.calls.map(call => call.url), ['http://cancel.test/0', 'http://cancel.test/2']);
+        setFetchHostMaxCount('http://cancel.test', 0);
+    });
+});
+
+function failedResponse(status: number) {
+    const body = new ReadableStream({
+        cancel() {
+            res.canceled = true;
+        }
+    });
+    const res = new Response(body, { status }) as Response & { canceled?: boolean };
+    return res;
+}
+
+test('fetch falls through to the mirror url when the response is not ok, the failed body is cancelled', async () => {
+    const stub = createFetchStub();
+    await withFetch(stub.fetch, async () => {
+        const result = fetchText('http://mirror.test/0', 'mirror-0', { retry: { maxAttempts: 3, delay: 0 } }, ['http://mirror2.test/0']);
+        await nextTick();
+        const notFound = failedResponse(404);
+        stub.calls[0].respond(notFound);
+        await nextTick();
+        //404 is not retried
+        assert.deepStrictEqual(stub.calls.map(call => call.url), ['http://mirror.test/0', 'http://mirror2.test/0']);
+        assert.strictEqual(notFound.canceled, true);
+
+        stub.calls[1].respond(okResponse('mirror'));
+        assert.strictEqual(await result, 'mirror');
+    });
+});
+
+test('fetch is cancelled while it waits for the retry', async () => {
+    const stub = createFetchStub();
+    await withFetch(stub.fetch, async () => {
+        const result = fetchText('http://retry.test/0', 'retry-0', { retry: { maxAttempts: 3, delay: 60 * 1000 } });
+        await nextTick();
+        stub.calls[0].respond(failedResponse(503));
+        await nextTick();
+        cancelFetch('retry-0');
+        await assert.rejects(result, error => error === FetchCancelError);
+        assert.strictEqual(stub.calls.length, 1);
+    });
+});
+
+test('fetches of the same url share one request, the other task still resolves when one task cancels', async () => {
+    const stub = createFetchStub();
+    await withFetch(stub.fetch, async () => {
+        const cancelled = fetchText('http://coalesce.test/0', 'coalesce-0');
+        const result = fetchText('http://coalesce.test/0', 'coalesce-1');
+        await nextTick();
+        cancelFetch('coalesce-0');
+        await assert.rejects(cancelled, error => error === FetchCancelError);
+
+        assert.strictEqual(stub.calls.length, 1);
+        stub.calls[0].respond(okResponse('shared'));
+        assert.strictEqual(await result, 'shared');
+    });
+});
+
+test('the shared request is aborted when all tasks cancel', async () => {
+    const stub = createFetchStub();
+    await withFetch(stub.fetch, async () => {
+        const results = [fetchText('http://abort.test/0', 'abort-0'), fetchText('http://abort.test/0', 'abort-1')];
+        await nextTick();
+        cancelFetch('abort-0');
+        cancelFetch('abort-1');
+        for (const result of results) {
+            await assert.rejects(result, error => error === FetchCancelError);
+        }
+        //a new request after the abort
+        const next = fetchText('http://abort.test/0', 'abort-2');
+        await nextTick();
+        assert.strictEqual(stub.calls.length, 2);
+        stub.calls[1].respond(okResponse('next'));
+        assert.strictEqual(await next, 'next');
+    });
+});
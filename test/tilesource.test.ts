@@ -0,0 +1,58 @@
+import { test } from 'node:test';
+import * as assert from 'node:assert';
+import { fetchTileSourceData, injectTileSource, removeTileSource } from '../src/tilesource';
+import { bufferToText, createPMTiles } from './helper';
+
+const PMTILES = createPMTiles([
+    { tileId: 0, data: 'z0' },
+    { tileId: 1, data: 'z1-0-0' }
+]);
+
+function mockFetch(supportRange: boolean) {
+    return (url: string, options: Record<string, any>) => {
+        const range = options.headers.Range.match(/bytes=(\d+)-(\d+)/);
+        const start = parseInt(range[1]), end = parseInt(range[2]);
+        if (supportRange) {
+            return Promise.resolve(new Response(PMTILES.slice(start, end + 1), { status: 206 }));
+        }
+        return Promise.resolve(new Response(PMTILES, { status: 200 }));
+    };
+}
+
+async function withFetch(fetch: any, callback: () => Promise<void>) {
+    const globalFetch = globalThis.fetch;
+    globalThis.fetch = fetch;
+    try {
+        await callback();
+    } finally {
+        globalThis.fetch = globalFetch;
+    }
+}
+
+test('fetchTileSourceData of injected pmtiles', async () => {
+    await injectTileSource('test-pmtiles', 'pmtiles', PMTILES);
+    try {
+        assert.strictEqual(bufferToText(await fetchTileSourceData('pmtiles://test-pmtiles/1/0/0.pbf', {})), 'z1-0-0');
+        await assert.rejects(fetchTileSourceData('pmtiles://test-pmtiles/1/1/1', {}), { status: 404 });
+    } finally {
+        removeTileSource('test-pmtiles');
+    }
+});
+
+test('fetchTileSourceData of http pmtiles by range request', async () => {
+    await withFetch(mockFetch(true), async () => {
+        const data = await fetchTileSourceData('pmtiles://https://range.com/a.pmtiles/0/0/0', {});
+        assert.strictEqual(bufferToText(data), 'z0');
+    });
+});
+
+test('fetchTileSourceData reject the server not support range request', async () => {
+    await withFetch(mockFetch(false), async () => {
+        await assert.rejects(fetchTileSourceData('pmtiles://https://norange.com/a.pmtiles/0/0/0', {}), /not support range request/);
+    });
+});
+
+test('fetchTileSourceData reject the error url', async () => {
+    await assert.rejects(fetchTileSourceData('pmtiles://test-pmtiles/1/0', {}), /tile source url is error/);
+    await assert.rejects(fetchTileSourceData('mbtiles://not-exist/0/0/0', {}), /not find mbtiles tile source/);
+});
@@ -0,0 +1,59 @@
+import { test } from 'node:test';
+import * as assert from 'node:assert';
+import { BBOXtype } from '../src/bbox';
+import { getConfig, getMirrorUrls, getSeedMaxTiles, getTileRangeCount, getTileUrl, HEADERS, setConfig } from '../src/util';
+
+test('getTileUrl replace x/y/z and TMS y', () => {
+    assert.strictEqual(getTileUrl('https://a.com/{z}/{x}/{y}.png', 1, 2, 3, {}), 'https://a.com/3/1/2.png');
+    assert.strictEqual(getTileUrl('https://a.com/{z}/{x}/{-y}.png', 1, 2, 3, {}), 'https://a.com/3/1/5.png');
+});
+
+test('getTileUrl bbox-epsg-4326 is lon,lat and bbox-epsg-4326-latlon is lat,lon', () => {
+    const lonlat = getTileUrl('{bbox-epsg-4326}', 0, 0, 1, { projection: 'EPSG:4326' }).split(',').map(Number);
+    const latlon = getTileUrl('{bbox-epsg-4326-latlon}', 0, 0, 1, { projection: 'EPSG:4326' }).split(',').map(Number);
+    assert.deepStrictEqual(lonlat, [-180, -90, 0, 90]);
+    assert.deepStrictEqual(latlon, [-90, -180, 90, 0]);
+    const url = getTileUrl('/wms?BBOX={bbox-epsg-4326-latlon}&SRS={bbox-epsg-4326}', 0, 0, 1, { projection: 'EPSG:4326' });
+    assert.strictEqual(url, '/wms?BBOX=-90,-180,90,0&SRS=-180,-90,0,90');
+});
+
+test('getTileUrl width and height', () => {
+    assert.strictEqual(getTileUrl('{width}x{height}', 0, 0, 0, {}), '256x256');
+    assert.strictEqual(getTileUrl('{width}x{height}', 0, 0, 0, { tileSize: 512 }), '512x512');
+});
+
+test('getTileRangeCount of the world', () => {
+    const bbox: BBOXtype = [-180, -85, 180, 85];
+    assert.strictEqual(getTileRangeCount(bbox, 0, 0), 1);
+    assert.strictEqual(getTileRangeCount(bbox, 0, 2), 1 + 4 + 16);
+    assert.strictEqual(getTileRangeCount([-180, -90, 180, 90], 1, 1, 'EPSG:4326'), 2);
+});
+
+test('getSeedMaxTiles', () => {
+    assert.strictEqual(getSeedMaxTiles({ maxTiles: 10 }), 10);
+    assert.strictEqual(getSeedMaxTiles({}), 100000);
+    assert.strictEqual(getSeedMaxTiles({ maxTiles: -1 }), 100000);
+});
+
+test('getMirrorUrls of flat and per url mirrors', () => {
+    assert.deepStrictEqual(getMirrorUrls(null, 0), []);
+    assert.deepStrictEqual(getMirrorUrls(['a', '', 'b'], 1), ['a', 'b']);
+    assert.deepStrictEqual(getMirrorUrls([['a'], ['b', 'c']], 1), ['b', 'c']);
+    assert.deepStrictEqual(getMirrorUrls([['a']], 2), []);
+});
+
+test('setConfig merge headers and null remove the header', () => {
+    const defaultHeaders = Object.assign({}, HEADERS);
+    try {
+        setConfig({ headers: { 'X-Token': 'abc', 'User-Agent': null } });
+        const { headers } = getConfig();
+        assert.strictEqual(headers['X-Token'], 'abc');
+        assert.strictEqual(headers['accept'], defaultHeaders['accept']);
+        assert.ok(!('User-Agent' in headers));
+    } finally {
+        for (const key in HEADERS) {
+            delete HEADERS[key];
+        }
+        Object.assign(HEADERS, defaultHeaders);
+    }
+});
@@ -0,0 +1,17 @@
+import { test } from 'node:test';
+import * as assert from 'node:assert';
+import WorkerPlugin, { toTemplateLiteral } from '../worker-plugin';
+
+test('toTemplateLiteral keep the backslash, backtick and ${ of code', () => {
+    const code = 'const a = /^["\'`[]|["\'`\\]]$/g, b = /^(.+)\\/(\\d+)\\s+$/; const c = `${a}`; const d = \'doesn\\\'t\';';
+    assert.strictEqual(new Function('return ' + toTemplateLiteral(code))(), code);
+});
+
+test('WorkerPlugin export the worker code as template literal', () => {
+    const plugin = WorkerPlugin();
+    const code = 'define([\'exports\'], function(exports){ const reg = /\\s+`/; });\n';
+    const result = plugin.renderChunk.call({ error: (message: string) => { throw new Error(message); } }, code, null);
+    assert.ok(result.indexOf('export default `') === 0);
+    const template = result.substring('export default '.length);
+    assert.strictEqual(new Function('return ' + template)(), ' function(exports){ const reg = /\\s+`/; })');
+});
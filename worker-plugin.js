@@ -1,3 +1,10 @@
+/**
+ * escape the code in template literal, keep the \, ` and ${ of the code
+ */
+export function toTemplateLiteral(code) {
+    return '`' + code.replace(/\\/g, '\\\\').replace(/`/g, '\\`').replace(/\$\{/g, '\\${') + '`';
+}
+
 export default function WorkerPlugin() {
     return {
         name: 'maptalks-worker-resolve', // 此名称将出现在警告和错误中
@@ -12,9 +19,19 @@ export default function WorkerPlugin() {
         renderChunk(code, chunk) {
             code = code.replace('define([\'exports\'],', '');
             code = code.replace('define(["exports"],', '');
-            code = code.replaceAll("doesn\\'t", 'does not');
             code = code.substring(0, code.length - 2);
-            return 'export default `' + code + '`';
+            const template = toTemplateLiteral(code);
+            //the worker code must be the same after the template literal evaluated
+            let result;
+            try {
+                result = new Function('return ' + template)();
+            } catch (error) {
+                this.error('worker code can not be in template literal:' + error.message);
+            }
+            if (result !== code) {
+                this.error('worker code is changed by template literal');
+            }
+            return 'export default ' + template;
         }
     };
 }